@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getAmbientContext, runWithContext } from './async-context';
+import { FakeLogDotServer } from './testing';
+import { LogDotLogger } from './logger';
+import { LogDotMetrics } from './metrics';
+
+describe('runWithContext', () => {
+  it('should expose the context across awaits and timers', async () => {
+    const seen = await runWithContext({ request_id: 'a' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getAmbientContext();
+    });
+
+    expect(seen).toEqual({ request_id: 'a' });
+    expect(getAmbientContext()).toEqual({});
+  });
+
+  it('should merge nested scopes', () => {
+    runWithContext({ tenant: 't1', user_id: 1 }, () => {
+      runWithContext({ user_id: 2 }, () => {
+        expect(getAmbientContext()).toEqual({ tenant: 't1', user_id: 2 });
+      });
+      expect(getAmbientContext()).toEqual({ tenant: 't1', user_id: 1 });
+    });
+  });
+
+  it('should keep concurrent scopes apart', async () => {
+    const run = (id: string) => runWithContext({ request_id: id }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getAmbientContext().request_id;
+    });
+
+    await expect(Promise.all([run('a'), run('b')])).resolves.toEqual(['a', 'b']);
+  });
+});
+
+describe('ambient context in components', () => {
+  let server: FakeLogDotServer;
+
+  beforeEach(() => {
+    server = new FakeLogDotServer();
+  });
+
+  it('should tag logs from any logger, below withContext() and call tags', async () => {
+    const logger = new LogDotLogger({ apiKey: 'test_key', hostname: 'test-service', transport: server });
+    const other = new LogDotLogger({ apiKey: 'test_key', hostname: 'other', transport: server });
+
+    await logger.runWithContext({ request_id: 'abc', user_id: 1 }, async () => {
+      await logger.withContext({ user_id: 2 }).info('one', { step: 1 });
+      await other.info('two', { request_id: 'override' });
+    });
+    await logger.info('outside');
+
+    expect(server.logs.map((log) => log.tags)).toEqual([
+      { request_id: 'abc', user_id: 2, step: 1 },
+      { request_id: 'override', user_id: 1 },
+      undefined,
+    ]);
+  });
+
+  it('should tag logs queued in batch mode with the context at call time', async () => {
+    const logger = new LogDotLogger({ apiKey: 'test_key', hostname: 'test-service', transport: server });
+    logger.beginBatch();
+    await logger.runWithContext({ request_id: 'abc' }, () => logger.info('queued'));
+
+    await logger.sendBatch();
+    expect(server.logs[0].tags).toEqual({ request_id: 'abc' });
+  });
+
+  it('should tag metrics sent by bound clients', async () => {
+    const metrics = new LogDotMetrics({ apiKey: 'test_key', transport: server });
+    const client = metrics.forEntity(server.addEntity({ name: 'svc' }).id);
+
+    await runWithContext({ tenant: 'acme' }, () => client.send('latency', 5, 'ms', { route: '/' }));
+
+    expect(server.metrics[0].tags).toEqual(['tenant:acme', 'route:/']);
+  });
+});
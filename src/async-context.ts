@@ -0,0 +1,40 @@
+/**
+ * Async context - Request-scoped tags without threading a logger through
+ *
+ * runWithContext() stores tags in an AsyncLocalStorage for the duration
+ * of a callback and everything it awaits or schedules. Loggers, console
+ * capture and bound metrics clients add those ambient tags to anything
+ * they send from inside the scope.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const storage = new AsyncLocalStorage<Record<string, unknown>>();
+
+/**
+ * Run `fn` with `context` as ambient tags. Nested scopes inherit the
+ * enclosing scope's tags, with their own taking precedence.
+ *
+ * @returns Whatever `fn` returns (a promise for async callbacks)
+ */
+export function runWithContext<T>(context: Record<string, unknown>, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Get the ambient tags of the current async scope (empty outside one)
+ */
+export function getAmbientContext(): Record<string, unknown> {
+  return storage.getStore() ?? {};
+}
+
+/**
+ * Merge tags over the ambient context; undefined when both are empty
+ */
+export function withAmbientContext(tags?: Record<string, unknown>): Record<string, unknown> | undefined {
+  const ambient = storage.getStore();
+  if (!ambient || Object.keys(ambient).length === 0) {
+    return tags;
+  }
+  return { ...ambient, ...tags };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { splitBatch, sendChunks, jsonBytes, resolveBatchLimits } from './batch';
+import { HttpClient } from './http';
+import { LogDotAbortError, LogDotValidationError } from './errors';
+import type { Transport } from './transport';
+
+describe('splitBatch', () => {
+  it('should keep a batch under the limits in one chunk', () => {
+    expect(splitBatch([1, 2, 3], { maxBytes: 1000, maxEntries: 10 })).toEqual([[1, 2, 3]]);
+  });
+
+  it('should split on entry count', () => {
+    expect(splitBatch([1, 2, 3, 4, 5], { maxBytes: 1000, maxEntries: 2 })).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('should split on serialized size including the envelope', () => {
+    const items = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+    const chunks = splitBatch(items, { maxBytes: 100, maxEntries: 100, overheadBytes: 10 });
+
+    expect(chunks).toEqual([[items[0], items[1]], [items[2]]]);
+    for (const chunk of chunks) {
+      expect(jsonBytes(chunk) + 10).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should send an oversized item on its own', () => {
+    const big = 'x'.repeat(500);
+    expect(splitBatch(['a', big, 'b'], { maxBytes: 100, maxEntries: 100 })).toEqual([['a'], [big], ['b']]);
+  });
+
+  it('should return no chunks for an empty batch', () => {
+    expect(splitBatch([], resolveBatchLimits({}))).toEqual([]);
+  });
+});
+
+describe('sendChunks', () => {
+  function client(send: Transport['send']): HttpClient {
+    return new HttpClient({ apiKey: 'k', transport: { send }, retry: { maxAttempts: 1 } });
+  }
+
+  it('should report per-chunk results in order', async () => {
+    const send = vi.fn()
+      .mockResolvedValueOnce({ status: 200, body: '', headers: {} })
+      .mockResolvedValueOnce({ status: 413, body: '{"error":"too large"}', headers: {} })
+      .mockRejectedValueOnce(new Error('ECONNRESET'));
+
+    const results = await sendChunks(client(send), 'https://example.test/logs/batch', [[1], [2, 3], [4]], (chunk) => ({ logs: chunk }));
+
+    expect(results.map((r) => r.success)).toEqual([true, false, false]);
+    expect(results[1]).toMatchObject({ index: 1, entries: 2, status: 413 });
+    expect(results[1].error).toBeInstanceOf(LogDotValidationError);
+    expect(results[2].error?.message).toBe('ECONNRESET');
+    expect(JSON.parse(send.mock.calls[1][0].body)).toEqual({ logs: [2, 3] });
+  });
+
+  it('should send chunks in parallel up to the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const send = vi.fn(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, 10));
+      inFlight--;
+      return { status: 200, body: '', headers: {} };
+    });
+
+    const results = await sendChunks(client(send), 'https://example.test/logs/batch', [[1], [2], [3], [4], [5]], (c) => c, 2);
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(send).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should fail the remaining chunks once the batch is aborted', async () => {
+    const controller = new AbortController();
+    const send = vi.fn(async () => {
+      controller.abort();
+      return { status: 200, body: '', headers: {} };
+    });
+
+    const results = await sendChunks(client(send), 'https://example.test/logs/batch', [[1], [2], [3]], (c) => c, 1, {
+      signal: controller.signal,
+    });
+
+    expect(results.map((r) => r.success)).toEqual([true, false, false]);
+    expect(results[1].error).toBeInstanceOf(LogDotAbortError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Batch splitting - Keeps batch requests under the API's size limits
+ *
+ * Every batch sender serializes its entries, splits them into chunks that
+ * stay under a byte and an entry-count limit, and posts each chunk as its
+ * own request. Chunks succeed or fail independently, so one rejected
+ * chunk does not lose the rest of the batch.
+ */
+
+import type { HttpClient } from './http';
+import { errorFromResponse, toLogDotError } from './errors';
+import { withCancellation } from './cancellation';
+import type { BatchChunkResult, RequestOptions } from './types';
+
+/** Default maximum serialized size of one batch request */
+export const DEFAULT_BATCH_MAX_BYTES = 1_000_000;
+
+/** Default maximum number of entries in one batch request */
+export const DEFAULT_BATCH_MAX_ENTRIES = 1000;
+
+/** Limits for splitting a batch */
+export interface BatchLimits {
+  /** Maximum serialized request size in bytes */
+  maxBytes: number;
+  /** Maximum entries per request */
+  maxEntries: number;
+  /** Bytes taken by the request envelope around the entries */
+  overheadBytes?: number;
+}
+
+/**
+ * Serialized size of a value in bytes
+ */
+export function jsonBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value));
+}
+
+/**
+ * Resolve batch limits from config, applying defaults
+ */
+export function resolveBatchLimits(config: { batchMaxBytes?: number; batchMaxEntries?: number }): BatchLimits {
+  return {
+    maxBytes: config.batchMaxBytes ?? DEFAULT_BATCH_MAX_BYTES,
+    maxEntries: Math.max(1, config.batchMaxEntries ?? DEFAULT_BATCH_MAX_ENTRIES),
+  };
+}
+
+/**
+ * Split items into chunks under the byte and count limits, preserving order.
+ *
+ * An item that is larger than maxBytes on its own is sent alone rather
+ * than dropped; the server decides whether to accept it.
+ */
+export function splitBatch<T>(items: T[], limits: BatchLimits, sizeOf: (item: T) => number = jsonBytes): T[][] {
+  const chunks: T[][] = [];
+  const overhead = limits.overheadBytes ?? 0;
+  let current: T[] = [];
+  let currentBytes = overhead;
+
+  for (const item of items) {
+    // +1 for the separating comma
+    const bytes = sizeOf(item) + 1;
+    const full = current.length >= limits.maxEntries || currentBytes + bytes > limits.maxBytes;
+    if (current.length > 0 && full) {
+      chunks.push(current);
+      current = [];
+      currentBytes = overhead;
+    }
+    current.push(item);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Post each chunk as its own request, up to `concurrency` at a time.
+ *
+ * Never throws: failures are reported in the chunk results, which are
+ * returned in chunk order. `signal` and `deadlineMs` apply to the batch
+ * as a whole; chunks not yet sent when it aborts fail with its reason.
+ */
+export function sendChunks<T>(
+  http: HttpClient,
+  url: string,
+  chunks: T[][],
+  buildPayload: (chunk: T[]) => unknown,
+  concurrency: number = 1,
+  options: RequestOptions = {}
+): Promise<BatchChunkResult[]> {
+  return withCancellation(options, (signal) => sendChunksWithSignal(http, url, chunks, buildPayload, concurrency, signal));
+}
+
+async function sendChunksWithSignal<T>(
+  http: HttpClient,
+  url: string,
+  chunks: T[][],
+  buildPayload: (chunk: T[]) => unknown,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<BatchChunkResult[]> {
+  const results: BatchChunkResult[] = new Array(chunks.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < chunks.length) {
+      const index = next++;
+      const chunk = chunks[index];
+      try {
+        const response = await http.post(url, buildPayload(chunk), { spool: true, signal });
+        const success = response.status === 200 || response.status === 201 || response.spooled === true;
+        results[index] = {
+          index,
+          entries: chunk.length,
+          success,
+          status: response.status,
+          ...(response.spooled ? { spooled: true } : {}),
+          ...(success ? {} : { error: errorFromResponse(response) }),
+        };
+      } catch (error) {
+        results[index] = { index, entries: chunk.length, success: false, error: toLogDotError(error) };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, chunks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
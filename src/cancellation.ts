@@ -0,0 +1,80 @@
+/**
+ * Cancellation - Caller AbortSignals and overall deadlines
+ *
+ * An operation may be given an AbortSignal, a deadline, or both. They are
+ * combined into one signal that covers every attempt, backoff sleep and
+ * in-flight request of the operation. The signal's reason is the error
+ * the operation rejects with: LogDotAbortError when the caller aborted,
+ * LogDotTimeoutError when the deadline passed.
+ */
+
+import { LogDotAbortError, LogDotTimeoutError } from './errors';
+import type { RequestOptions } from './types';
+
+/** A combined signal plus the cleanup for its listener and timer */
+export interface Cancellation {
+  /** Aborts when the caller aborts or the deadline passes; undefined if neither was given */
+  signal?: AbortSignal;
+  /** Release the timer and listener once the operation settles */
+  dispose: () => void;
+}
+
+/**
+ * Combine a caller's signal and deadline into one signal
+ */
+export function createCancellation(options: RequestOptions = {}): Cancellation {
+  const { signal, deadlineMs } = options;
+  if (!signal && deadlineMs === undefined) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => {
+    controller.abort(new LogDotAbortError('Request aborted', { cause: signal?.reason }));
+  };
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  if (deadlineMs !== undefined && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      controller.abort(new LogDotTimeoutError(`Deadline of ${deadlineMs}ms exceeded`));
+    }, Math.max(0, deadlineMs));
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Run an operation under a combined signal, releasing it afterwards
+ */
+export async function withCancellation<T>(
+  options: RequestOptions | undefined,
+  fn: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const cancellation = createCancellation(options);
+  try {
+    return await fn(cancellation.signal);
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Throw the signal's reason if it has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start closed and allow requests', () => {
+    const breaker = new CircuitBreaker();
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('should open after failureThreshold consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow a single trial request after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(999);
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    vi.advanceTimersByTime(1);
+    expect(() => breaker.acquire()).not.toThrow();
+    expect(breaker.getState()).toBe('half-open');
+
+    // Second concurrent request is rejected while the trial is in flight
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should close when the trial request succeeds', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.acquire();
+
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('should re-open when the trial request fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 5, cooldownMs: 1000 });
+    for (let i = 0; i < 5; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.acquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should report remaining cooldown on CircuitOpenError', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(400);
+
+    try {
+      breaker.acquire();
+      expect.fail('acquire should throw');
+    } catch (error) {
+      expect((error as CircuitOpenError).retryInMs).toBe(600);
+    }
+  });
+
+  it('should notify onStateChange on every transition', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 10, onStateChange });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(10);
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(onStateChange.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ]);
+  });
+
+  it('should ignore errors thrown by onStateChange', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => { throw new Error('listener failed'); },
+    });
+
+    expect(() => breaker.recordFailure()).not.toThrow();
+    expect(breaker.getState()).toBe('open');
+  });
+});
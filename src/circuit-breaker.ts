@@ -0,0 +1,116 @@
+/**
+ * Circuit Breaker - Fails fast while the LogDot backend is unavailable
+ *
+ * After `failureThreshold` consecutive failed attempts the breaker opens
+ * and every request is rejected immediately with CircuitOpenError. Once
+ * `cooldownMs` has elapsed a single trial request is let through
+ * (half-open); success closes the breaker, failure re-opens it.
+ */
+
+import { LogDotError } from './errors';
+import type { CircuitBreakerConfig, CircuitState } from './types';
+
+/**
+ * Thrown instead of sending a request while the circuit is open
+ */
+export class CircuitOpenError extends LogDotError {
+  /** Milliseconds until the breaker will allow a trial request */
+  readonly retryInMs: number;
+
+  constructor(retryInMs: number) {
+    super(`Circuit breaker is open; retry in ${retryInMs}ms`);
+    this.name = 'CircuitOpenError';
+    this.retryInMs = retryInMs;
+  }
+}
+
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = {
+      failureThreshold: Math.max(1, config.failureThreshold ?? 5),
+      cooldownMs: config.cooldownMs ?? 30000,
+      onStateChange: config.onStateChange,
+    };
+  }
+
+  /**
+   * Get the current breaker state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Reserve permission to send a request.
+   *
+   * @throws CircuitOpenError when the breaker is open, or half-open with
+   *   a trial request already in flight
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.config.cooldownMs) {
+        throw new CircuitOpenError(this.config.cooldownMs - elapsed);
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(0);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Record a successful exchange with the backend
+   */
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Record a failed attempt (network error or retryable status)
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  /**
+   * Give up a reservation without recording an outcome, e.g. when the
+   * caller aborted the request. Frees the half-open trial slot so the
+   * next request can probe the backend.
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+    try {
+      this.config.onStateChange?.(next, previous);
+    } catch {
+      // A misbehaving listener must not break request handling
+    }
+  }
+}
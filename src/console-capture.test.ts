@@ -1,9 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ConsoleCapture } from './console-capture';
+import { runWithContext } from './async-context';
 
 // Mock the HTTP client
-vi.mock('./http', () => ({
-  BASE_LOGS_URL: 'https://logs.logdot.io/api/v1',
+vi.mock('./http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./http')>()),
   HttpClient: vi.fn().mockImplementation(() => ({
     post: vi.fn().mockResolvedValue({ status: 200, data: {} }),
   })),
@@ -149,6 +150,23 @@ describe('ConsoleCapture', () => {
       expect(buffer[0].message).toContain('Error: test error');
     });
 
+    it('should include error causes and serialize nested errors', () => {
+      console.error(new Error('outer', { cause: new Error('inner') }));
+      console.log({ err: new Error('nested') });
+
+      const buffer = (capture as any).buffer;
+      expect(buffer[0].message).toContain('Caused by: Error: inner');
+      expect(JSON.parse(buffer[1].message).err).toMatchObject({ name: 'Error', message: 'nested' });
+    });
+
+    it('should format printf-style arguments like util.format', () => {
+      console.log('%s has %d items', 'cart', 3, { extra: true });
+
+      const buffer = (capture as any).buffer;
+      expect(buffer[0].message).toBe('cart has 3 items {"extra":true}');
+      expect(buffer[0].tags.message_template).toBe('%s has %d items');
+    });
+
     it('should queue multiple entries', () => {
       console.log('msg 1');
       console.log('msg 2');
@@ -181,6 +199,101 @@ describe('ConsoleCapture', () => {
     });
   });
 
+  describe('sampling', () => {
+    it('should sample captured output', () => {
+      capture.shutdown();
+      capture = new ConsoleCapture({
+        apiKey: 'test_key',
+        hostname: 'test-service',
+        sampling: { rates: { debug: 0 }, perMessage: { limit: 1 } },
+        flushIntervalMs: 60000,
+      });
+      console.debug('dropped');
+      console.log('hot');
+      console.log('hot');
+      console.error('kept');
+
+      const buffer = (capture as any).buffer;
+      expect(buffer.map((entry: { message: string }) => entry.message)).toEqual(['hot', 'kept']);
+    });
+  });
+
+  describe('dedup', () => {
+    it('should collapse repeated output into a summary on shutdown', () => {
+      capture.shutdown();
+      capture = new ConsoleCapture({ apiKey: 'test_key', hostname: 'test-service', dedup: true, flushIntervalMs: 60000 });
+      console.error('refused');
+      console.error('refused');
+      console.error('refused');
+
+      const buffer = (capture as any).buffer;
+      expect(buffer).toHaveLength(1);
+
+      const http = (capture as any).http;
+      capture.shutdown();
+      const logs = http.post.mock.calls[0][1].logs;
+      expect(logs).toHaveLength(2);
+      expect(logs[1].tags).toMatchObject({ source: 'console', repeat_count: 2 });
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact captured strings and object keys when redact is set', () => {
+      capture.shutdown();
+      capture = new ConsoleCapture({ apiKey: 'test_key', hostname: 'test-service', redact: true, flushIntervalMs: 60000 });
+      console.log('login', { user: 'bob', password: 'hunter2' }, 'from bob@example.com');
+
+      const buffer = (capture as any).buffer;
+      expect(buffer[0].message).toBe('login {"user":"bob","password":"[REDACTED]"} from [REDACTED]');
+    });
+
+    it('should redact printf arguments and the template tag', () => {
+      capture.shutdown();
+      capture = new ConsoleCapture({ apiKey: 'test_key', hostname: 'test-service', redact: true, flushIntervalMs: 60000 });
+      console.log('mail alice@example.com req %o', { password: 'hunter2' });
+
+      const buffer = (capture as any).buffer;
+      expect(buffer[0].message).not.toContain('hunter2');
+      expect(buffer[0].message).toContain("password: '[REDACTED]'");
+      expect(buffer[0].tags.message_template).toBe('mail [REDACTED] req %o');
+    });
+  });
+
+  describe('ambient context', () => {
+    it('should add runWithContext() tags to captured entries', () => {
+      runWithContext({ request_id: 'abc' }, () => console.log('inside'));
+      console.log('outside');
+
+      const buffer = (capture as any).buffer;
+      expect(buffer[0].tags).toEqual({ request_id: 'abc', source: 'console' });
+      expect(buffer[1].tags).toEqual({ source: 'console' });
+    });
+  });
+
+  describe('level', () => {
+    it('should skip console calls below the minimum level', () => {
+      capture.setLevel('warn');
+      console.info('skipped');
+      console.debug('skipped');
+      console.error('captured');
+
+      const buffer = (capture as any).buffer;
+      expect(buffer.map((entry: { message: string }) => entry.message)).toEqual(['captured']);
+    });
+  });
+
+  describe('stats', () => {
+    it('should count captured and flushed entries', async () => {
+      console.log('one');
+      console.warn('two');
+      expect(capture.getStats()).toMatchObject({ enqueued: 2, queueDepth: 2, sent: 0 });
+
+      (capture as any).flush();
+      await vi.waitFor(() => expect(capture.getStats().sent).toBe(2));
+      expect(capture.getStats().queueDepth).toBe(0);
+    });
+  });
+
   describe('truncation', () => {
     it('should truncate very long messages', () => {
       const longMessage = 'x'.repeat(20000);
@@ -6,9 +6,26 @@
  * to prevent infinite loops when HttpClient itself logs.
  */
 
-import { HttpClient, BASE_LOGS_URL } from './http.js';
-import { truncateBytes } from './utils.js';
-import type { LogLevel } from './types.js';
+import { type HttpClient, resolveLogsUrl, resolveMetricsUrl } from './http.js';
+import { createHttpClient } from './http-options.js';
+import { truncateBytes, formatTimestamp, nowMs } from './utils.js';
+import { resolveBatchLimits, sendChunks, splitBatch, jsonBytes, type BatchLimits } from './batch.js';
+import { SelfReporter, StatsCollector } from './stats.js';
+import { isLevelEnabled, resolveLevel } from './levels.js';
+import { formatError, serializeError, type SerializeErrorOptions } from './error-serializer.js';
+import { getAmbientContext } from './async-context.js';
+import { createRedactor, type Redactor } from './redaction.js';
+import { createSampler, SAMPLE_RATE_TAG, type Sampler } from './sampling.js';
+import { createDeduplicator, type Deduplicator } from './dedup.js';
+import { formatPrintf, hasPrintfSpecifiers, MESSAGE_TEMPLATE_TAG } from './message-format.js';
+import type {
+  ComponentOptions,
+  LogLevel,
+  SdkStats,
+  RedactionConfig,
+  SamplingConfig,
+  DedupConfig,
+} from './types.js';
 
 const DEFAULT_FLUSH_INTERVAL_MS = 5000;
 const DEFAULT_MAX_BUFFER_SIZE = 100;
@@ -16,32 +33,54 @@ const DEFAULT_MAX_BUFFER_SIZE = 100;
 interface BufferedLog {
   message: string;
   severity: LogLevel;
+  timestamp: string;
   tags: Record<string, unknown>;
 }
 
-export interface ConsoleCaptureConfig {
-  apiKey: string;
+export interface ConsoleCaptureConfig extends ComponentOptions {
   hostname: string;
-  debug?: boolean;
-  timeout?: number;
+  /** Minimum level to capture; LOGDOT_LEVEL overrides it (default: 'debug') */
+  level?: LogLevel;
+  /** Logs API base URL (default: LOGDOT_LOGS_URL env var, then https://logs.logdot.io/api/v1) */
+  logsUrl?: string;
   /** Flush interval in ms (default: 5000) */
   flushIntervalMs?: number;
   /** Max buffer size before auto-flush (default: 100) */
   maxBufferSize?: number;
+  /** Keep at most this many stack frames per logged error (default: 20) */
+  maxStackFrames?: number;
+  /** Redact secrets and PII from captured output; `true` applies every preset (default: disabled) */
+  redact?: RedactionConfig | boolean;
+  /** Keep only a fraction of captured output by level, message and trace id (default: keep everything) */
+  sampling?: SamplingConfig;
+  /** Collapse identical console output into one entry with a `repeat_count` tag (default: disabled) */
+  dedup?: DedupConfig | boolean;
 }
 
-function formatArgs(args: unknown[]): string {
-  return args
+function formatArgs(args: unknown[], options: SerializeErrorOptions = {}, redactor: Redactor | null = null): string {
+  // Redact objects before formatting so key globs still apply, including to
+  // %o/%j arguments; strings are covered by the pass over the whole message
+  const values = redactor ? args.map((arg) => (typeof arg === 'string' ? arg : redactor.redactValue(arg))) : args;
+
+  // A leading printf-style string consumes arguments the way util.format does
+  let parts = values;
+  if (typeof values[0] === 'string' && hasPrintfSpecifiers(values[0])) {
+    const { message, rest } = formatPrintf(values[0], values.slice(1));
+    parts = [message, ...rest];
+  }
+
+  const message = parts
     .map((arg) => {
       if (typeof arg === 'string') return arg;
-      if (arg instanceof Error) return `${arg.name}: ${arg.message}\n${arg.stack ?? ''}`;
+      if (arg instanceof Error) return formatError(arg, options);
       try {
-        return JSON.stringify(arg);
+        return JSON.stringify(arg, (_key, inner) => (inner instanceof Error ? serializeError(inner, options) : inner));
       } catch {
         return String(arg);
       }
     })
     .join(' ');
+  return redactor ? redactor.redactString(message) : message;
 }
 
 const LEVEL_MAP: Record<string, LogLevel> = {
@@ -55,10 +94,20 @@ const LEVEL_MAP: Record<string, LogLevel> = {
 export class ConsoleCapture {
   private http: HttpClient;
   private hostname: string;
+  private logsUrl: string;
   private buffer: BufferedLog[] = [];
   private flushTimer: ReturnType<typeof setInterval> | null = null;
   private maxBufferSize: number;
+  private batchLimits: BatchLimits;
+  private batchConcurrency?: number;
   private flushing = false;
+  private level: LogLevel;
+  private maxStackFrames?: number;
+  private redactor: Redactor | null;
+  private sampler: Sampler | null;
+  private deduplicator: Deduplicator<BufferedLog> | null;
+  private stats = new StatsCollector();
+  private selfReporter: SelfReporter | null = null;
 
   private originals: {
     log: typeof console.log;
@@ -69,13 +118,24 @@ export class ConsoleCapture {
   };
 
   constructor(config: ConsoleCaptureConfig) {
-    this.http = new HttpClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout ?? 5000,
-      debug: false, // Never debug the capture client itself
-    });
+    // Never debug the capture client itself
+    this.http = createHttpClient({ ...config, debug: false }, this.stats);
     this.hostname = config.hostname;
+    this.logsUrl = resolveLogsUrl(config.logsUrl);
     this.maxBufferSize = config.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+    this.batchLimits = resolveBatchLimits(config);
+    this.batchConcurrency = config.batchConcurrency;
+    this.level = resolveLevel(config.level);
+    this.maxStackFrames = config.maxStackFrames;
+    this.redactor = createRedactor(config.redact);
+    this.sampler = createSampler(config.sampling);
+    this.deduplicator = createDeduplicator<BufferedLog>(config.dedup, (summary) => this.enqueue(summary));
+
+    if (config.selfReport) {
+      const metricsUrl = resolveMetricsUrl(config.selfReport.metricsUrl);
+      this.selfReporter = new SelfReporter(this.http, metricsUrl, config.selfReport, 'console', this.stats);
+      this.selfReporter.start();
+    }
 
     // Save originals before patching
     this.originals = {
@@ -99,11 +159,36 @@ export class ConsoleCapture {
     this.flushTimer = timer;
   }
 
+  /**
+   * Set the minimum level to capture (console output itself is unaffected)
+   */
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  /**
+   * Get the current minimum capture level
+   */
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * Get delivery counters for captured console output
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
   shutdown(): void {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
+    this.selfReporter?.stop();
+    for (const { summary } of this.deduplicator?.drain() ?? []) {
+      this.enqueue(summary);
+    }
     // Flush remaining buffer before restoring originals, so that
     // the recursion guard (which depends on patched methods) still works
     this.flush();
@@ -124,21 +209,45 @@ export class ConsoleCapture {
         // Guard: skip only re-entrant calls from inside flush().
         // New entries from user code are still buffered normally.
         if (this.flushing) return;
+        if (!isLevelEnabled(severity, this.level)) return;
+
+        const timestamp = formatTimestamp(nowMs());
+        const message = truncateBytes(formatArgs(args, { maxStackFrames: this.maxStackFrames }, this.redactor));
+        const ambient = getAmbientContext();
+        const tags: Record<string, unknown> = {
+          ...(this.redactor ? this.redactor.redactTags(ambient) : ambient),
+          source: 'console',
+        };
+        let template = typeof args[0] === 'string' && hasPrintfSpecifiers(args[0]) ? args[0] : undefined;
+        if (template !== undefined) {
+          template = this.redactor ? this.redactor.redactString(template) : template;
+          tags[MESSAGE_TEMPLATE_TAG] = template;
+        }
 
-        const message = truncateBytes(formatArgs(args));
-        this.buffer.push({
-          message,
-          severity,
-          tags: { source: 'console' },
-        });
+        const entry: BufferedLog = { message, severity, timestamp, tags };
+        if (this.deduplicator && !this.deduplicator.check(severity, entry)) return;
 
-        if (this.buffer.length >= this.maxBufferSize) {
-          this.flush();
+        if (this.sampler) {
+          const rate = this.sampler.sample(severity, template ?? message, tags);
+          if (rate === 0) return;
+          if (rate < 1) entry.tags = { ...tags, [SAMPLE_RATE_TAG]: rate };
         }
+
+        this.enqueue(entry);
       };
     }
   }
 
+  private enqueue(entry: BufferedLog): void {
+    this.buffer.push(entry);
+    this.stats.add('enqueued');
+    this.stats.add('queueDepth');
+
+    if (this.buffer.length >= this.maxBufferSize) {
+      this.flush();
+    }
+  }
+
   private restore(): void {
     console.log = this.originals.log;
     console.info = this.originals.info;
@@ -152,22 +261,29 @@ export class ConsoleCapture {
 
     const logs = this.buffer.splice(0);
     this.flushing = true;
+    this.stats.add('queueDepth', -logs.length);
 
-    const url = `${BASE_LOGS_URL}/logs/batch`;
-    this.http
-      .post(url, {
-        hostname: this.hostname,
-        logs: logs.map((l) => ({
-          message: l.message,
-          severity: l.severity,
-          tags: l.tags,
-        })),
-      })
-      .catch(() => {
-        // Best-effort — don't re-queue to avoid unbounded growth
-      })
-      .finally(() => {
-        this.flushing = false;
-      });
+    const url = `${this.logsUrl}/logs/batch`;
+    const payloadLogs = logs.map((l) => ({
+      message: l.message,
+      severity: l.severity,
+      timestamp: l.timestamp,
+      tags: l.tags,
+    }));
+    const limits = { ...this.batchLimits, overheadBytes: jsonBytes({ hostname: this.hostname, logs: [] }) };
+
+    // Best-effort — failed chunks are not re-queued to avoid unbounded growth
+    // (the spool, if configured, keeps a copy)
+    sendChunks(
+      this.http,
+      url,
+      splitBatch(payloadLogs, limits),
+      (chunk) => ({ hostname: this.hostname, logs: chunk }),
+      this.batchConcurrency,
+    ).then((results) => {
+      this.stats.recordChunks(results, 'dropped');
+    }).finally(() => {
+      this.flushing = false;
+    });
   }
 }
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Deduplicator, type DedupEntry } from './dedup';
+import { FakeLogDotServer } from './testing';
+import { LogDotLogger } from './logger';
+
+describe('Deduplicator', () => {
+  let summaries: DedupEntry[];
+  let dedup: Deduplicator<DedupEntry>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    summaries = [];
+    dedup = new Deduplicator({ windowMs: 1000 }, (summary) => summaries.push(summary));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass the first log and count repeats until the window closes', () => {
+    expect(dedup.check('error', { message: 'refused', timestamp: 't1', tags: { db: 'main' } })).toBe(true);
+    expect(dedup.check('error', { message: 'refused', timestamp: 't2', tags: { db: 'main' } })).toBe(false);
+    expect(dedup.check('error', { message: 'refused', timestamp: 't3', tags: { db: 'main' } })).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(summaries).toEqual([{
+      message: 'refused',
+      timestamp: 't3',
+      tags: { db: 'main', repeat_count: 2, first_seen: 't1', last_seen: 't3' },
+    }]);
+    expect(dedup.check('error', { message: 'refused', timestamp: 't4', tags: { db: 'main' } })).toBe(true);
+  });
+
+  it('should tell logs apart by level, message and tags, ignoring tag order', () => {
+    dedup.check('error', { message: 'refused', tags: { a: 1, b: 2 } });
+
+    expect(dedup.check('error', { message: 'refused', tags: { b: 2, a: 1 } })).toBe(false);
+    expect(dedup.check('warn', { message: 'refused', tags: { a: 1, b: 2 } })).toBe(true);
+    expect(dedup.check('error', { message: 'refused', tags: { a: 1, b: 3 } })).toBe(true);
+    expect(dedup.check('error', { message: 'timeout', tags: { a: 1, b: 2 } })).toBe(true);
+  });
+
+  it('should not emit a summary for windows without repeats', () => {
+    dedup.check('info', { message: 'once' });
+    vi.advanceTimersByTime(1000);
+
+    expect(summaries).toEqual([]);
+  });
+
+  it('should stop tracking new logs at maxKeys', () => {
+    const capped = new Deduplicator({ maxKeys: 1 }, () => {});
+    capped.check('info', { message: 'a' });
+    capped.check('info', { message: 'b' });
+
+    expect(capped.check('info', { message: 'b' })).toBe(true);
+    expect(capped.check('info', { message: 'a' })).toBe(false);
+  });
+
+  it('should return open summaries from drain()', () => {
+    dedup.check('info', { message: 'a' });
+    dedup.check('info', { message: 'a' });
+
+    expect(dedup.drain()).toEqual([{ summary: { message: 'a', tags: { repeat_count: 1 } } }]);
+    vi.advanceTimersByTime(1000);
+    expect(summaries).toEqual([]);
+  });
+
+  it('should hand back the source of the log that opened the window', () => {
+    const emit = vi.fn();
+    const sourced = new Deduplicator<DedupEntry, string>({ windowMs: 1000 }, emit);
+    sourced.check('info', { message: 'a' }, 'first');
+    sourced.check('info', { message: 'a' }, 'second');
+    sourced.check('info', { message: 'b' }, 'third');
+    sourced.check('info', { message: 'b' }, 'fourth');
+
+    expect(sourced.drain().map((summary) => summary.source)).toEqual(['first', 'third']);
+  });
+
+  it('should emit the source with the summary when the window closes', () => {
+    const emit = vi.fn();
+    const sourced = new Deduplicator<DedupEntry, string>({ windowMs: 1000 }, emit);
+    sourced.check('info', { message: 'a' }, 'first');
+    sourced.check('info', { message: 'a' }, 'second');
+
+    vi.advanceTimersByTime(1000);
+    expect(emit).toHaveBeenCalledWith(expect.objectContaining({ message: 'a' }), 'first');
+  });
+});
+
+describe('LogDotLogger dedup', () => {
+  let server: FakeLogDotServer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = new FakeLogDotServer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeLogger(): LogDotLogger {
+    return new LogDotLogger({
+      apiKey: 'test_key',
+      hostname: 'test-service',
+      transport: server,
+      dedup: { windowMs: 5000 },
+    });
+  }
+
+  it('should send the first log and one summary for a storm', async () => {
+    const logger = makeLogger();
+    for (let i = 0; i < 100; i++) {
+      await logger.error('connection refused', { db: 'main' });
+    }
+    await logger.withContext({ db: 'main' }).error('connection refused');
+    expect(server.logs).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(server.logs).toHaveLength(2);
+    expect(server.logs[1]).toMatchObject({
+      message: 'connection refused',
+      severity: 'error',
+      tags: { db: 'main', repeat_count: 100, first_seen: server.logs[0].timestamp },
+    });
+    expect(server.logs[1].tags?.last_seen).toBe(server.logs[1].timestamp);
+  });
+
+  it('should send pending summaries on shutdown', async () => {
+    const logger = makeLogger();
+    await logger.warn('slow');
+    await logger.warn('slow');
+
+    await expect(logger.shutdown()).resolves.toBe(true);
+    expect(server.logs.map((log) => log.tags?.repeat_count)).toEqual([undefined, 1]);
+  });
+
+  it('should send the summary through the logger that produced the log', async () => {
+    const logger = makeLogger();
+    const batched = logger.withContext({ job: 'import' });
+    batched.beginBatch();
+    await batched.warn('slow');
+    await batched.warn('slow');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(server.logs).toHaveLength(0);
+    expect(batched.getBatchSize()).toBe(2);
+
+    await batched.sendBatch();
+    expect(server.logs.map((log) => log.tags)).toEqual([
+      { job: 'import' },
+      expect.objectContaining({ job: 'import', repeat_count: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Dedup - Collapse storms of identical logs
+ *
+ * The first log with a given level, message and tags is sent as usual and
+ * opens a window. Identical logs inside the window are only counted; when
+ * it closes, one summary entry is emitted carrying `repeat_count` (the
+ * number of repeats after the first) and the first/last-seen timestamps.
+ */
+
+import type { DedupConfig } from './types';
+
+/** Tags added to the summary of a collapsed storm */
+export const REPEAT_COUNT_TAG = 'repeat_count';
+export const FIRST_SEEN_TAG = 'first_seen';
+export const LAST_SEEN_TAG = 'last_seen';
+
+/** Default window length */
+export const DEFAULT_DEDUP_WINDOW_MS = 10000;
+
+/** Default number of distinct logs tracked at once */
+export const DEFAULT_DEDUP_MAX_KEYS = 1000;
+
+/** The parts of a log entry dedup reads and rewrites */
+export interface DedupEntry {
+  message: string;
+  timestamp?: string;
+  tags?: Record<string, unknown>;
+}
+
+interface DedupWindow<T, S> {
+  entry: T;
+  source?: S;
+  count: number;
+  lastSeen?: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * JSON with object keys sorted, so tag order doesn't affect the fingerprint
+ */
+function stableStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value, (_key, inner) => {
+      if (inner === null || typeof inner !== 'object' || Array.isArray(inner)) {
+        return inner;
+      }
+      return Object.fromEntries(Object.entries(inner).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    }) ?? '';
+  } catch {
+    return String(value);
+  }
+}
+
+/** A window's summary and the source of the log that opened it */
+export interface DedupSummary<T, S> {
+  summary: T;
+  source?: S;
+}
+
+export class Deduplicator<T extends DedupEntry, S = never> {
+  private windowMs: number;
+  private maxKeys: number;
+  private emit: (summary: T, source?: S) => void;
+  private windows = new Map<string, DedupWindow<T, S>>();
+
+  /**
+   * @param emit - Deliver the summary of a window that saw repeats, along
+   *   with the source passed to check() by the log that opened it
+   */
+  constructor(options: DedupConfig, emit: (summary: T, source?: S) => void) {
+    this.windowMs = Math.max(0, options.windowMs ?? DEFAULT_DEDUP_WINDOW_MS);
+    this.maxKeys = options.maxKeys ?? DEFAULT_DEDUP_MAX_KEYS;
+    this.emit = emit;
+  }
+
+  /**
+   * Record a log
+   *
+   * @param source - Where the log came from (e.g. the logger that produced
+   *   it), handed back with the summary so it is sent the same way
+   * @returns true when the log should be sent; false when it repeats one
+   *   sent within the window and was only counted
+   */
+  check(level: string, entry: T, source?: S): boolean {
+    const key = `${level}\u0000${entry.message}\u0000${stableStringify(entry.tags ?? {})}`;
+    const window = this.windows.get(key);
+    if (window) {
+      window.count++;
+      window.lastSeen = entry.timestamp;
+      return false;
+    }
+
+    // Past the cap, new logs go out undeduplicated rather than grow memory
+    if (this.windows.size < this.maxKeys) {
+      const timer = setTimeout(() => this.close(key), this.windowMs);
+      // Unref so the timer doesn't keep the process alive in scripts/tests
+      timer.unref?.();
+      this.windows.set(key, { entry: { ...entry }, source, count: 0, timer });
+    }
+    return true;
+  }
+
+  /**
+   * Close every open window now
+   *
+   * @returns the summaries of windows that saw repeats, instead of emitting them
+   */
+  drain(): Array<DedupSummary<T, S>> {
+    const summaries: Array<DedupSummary<T, S>> = [];
+    for (const [key, window] of this.windows) {
+      clearTimeout(window.timer);
+      this.windows.delete(key);
+      if (window.count > 0) {
+        summaries.push({ summary: this.summarize(window), source: window.source });
+      }
+    }
+    return summaries;
+  }
+
+  private close(key: string): void {
+    const window = this.windows.get(key);
+    this.windows.delete(key);
+    if (window && window.count > 0) {
+      this.emit(this.summarize(window), window.source);
+    }
+  }
+
+  private summarize(window: DedupWindow<T, S>): T {
+    const { entry, count, lastSeen } = window;
+    return {
+      ...entry,
+      timestamp: lastSeen ?? entry.timestamp,
+      tags: {
+        ...entry.tags,
+        [REPEAT_COUNT_TAG]: count,
+        ...(entry.timestamp ? { [FIRST_SEEN_TAG]: entry.timestamp } : {}),
+        ...(lastSeen ? { [LAST_SEEN_TAG]: lastSeen } : {}),
+      },
+    };
+  }
+}
+
+/**
+ * Build a Deduplicator from a component's `dedup` option
+ *
+ * @returns null when dedup is disabled
+ */
+export function createDeduplicator<T extends DedupEntry, S = never>(
+  config: DedupConfig | boolean | undefined,
+  emit: (summary: T, source?: S) => void
+): Deduplicator<T, S> | null {
+  if (!config) {
+    return null;
+  }
+  return new Deduplicator(config === true ? {} : config, emit);
+}
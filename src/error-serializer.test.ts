@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { formatError, serializeError, truncateStack, MAX_ERROR_DEPTH } from './error-serializer';
+import { LogDotRateLimitError } from './errors';
+
+describe('serializeError', () => {
+  it('should copy name, message, stack, code and custom fields', () => {
+    const error = Object.assign(new TypeError('bad input'), { code: 'E_INPUT', field: 'email' });
+
+    const result = serializeError(error);
+
+    expect(result).toMatchObject({ name: 'TypeError', message: 'bad input', code: 'E_INPUT', field: 'email' });
+    expect(result.stack).toContain('TypeError: bad input');
+    expect(JSON.parse(JSON.stringify(result))).toMatchObject({ message: 'bad input' });
+  });
+
+  it('should include fields of SDK errors and skip undefined ones', () => {
+    const result = serializeError(new LogDotRateLimitError('slow down', { status: 429 }));
+
+    expect(result.status).toBe(429);
+    expect(result).not.toHaveProperty('responseBody');
+  });
+
+  it('should follow cause chains', () => {
+    const root = new Error('connection refused');
+    const error = new Error('query failed', { cause: new Error('pool exhausted', { cause: root }) });
+
+    const result = serializeError(error);
+
+    expect(result.cause).toMatchObject({ message: 'pool exhausted', cause: { message: 'connection refused' } });
+  });
+
+  it('should serialize AggregateError.errors', () => {
+    const error = new AggregateError([new Error('a'), 'b'], 'all failed');
+
+    expect(serializeError(error).errors).toEqual([expect.objectContaining({ message: 'a' }), 'b']);
+  });
+
+  it('should stop at circular causes and the depth limit', () => {
+    const loop = new Error('loop');
+    loop.cause = loop;
+    expect(serializeError(loop).cause).toBe('[Circular]');
+
+    let deep = new Error('level 0');
+    for (let i = 1; i <= MAX_ERROR_DEPTH; i++) {
+      deep = new Error(`level ${i}`, { cause: deep });
+    }
+    let node = serializeError(deep) as { cause?: unknown };
+    for (let i = 1; i < MAX_ERROR_DEPTH; i++) {
+      node = node.cause as { cause?: unknown };
+    }
+    expect(node.cause).toBe('Error: level 0');
+  });
+
+  it('should limit stack frames', () => {
+    const error = new Error('deep');
+    error.stack = ['Error: deep', '    at a (a.js:1:1)', '    at b (b.js:1:1)', '    at c (c.js:1:1)'].join('\n');
+
+    expect(serializeError(error, { maxStackFrames: 1 }).stack).toBe('Error: deep\n    at a (a.js:1:1)\n    ... 2 more');
+  });
+});
+
+describe('truncateStack', () => {
+  it('should leave short stacks alone', () => {
+    const stack = 'Error: x\n    at a (a.js:1:1)';
+    expect(truncateStack(stack, 5)).toBe(stack);
+  });
+});
+
+describe('formatError', () => {
+  it('should append causes and indent aggregated errors', () => {
+    const inner = new Error('inner');
+    inner.stack = 'Error: inner';
+    const error = new AggregateError([inner], 'outer', { cause: 'timeout' });
+    error.stack = 'AggregateError: outer';
+
+    expect(formatError(error)).toBe('AggregateError: outer\n    Error: inner\nCaused by: timeout');
+  });
+});
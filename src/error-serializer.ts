@@ -0,0 +1,155 @@
+/**
+ * Error serialization - Errors as structured, JSON-safe values
+ *
+ * Error properties are non-enumerable, so JSON.stringify turns an Error
+ * into `{}`. serializeError copies the name, message, stack, code and any
+ * custom fields, and follows `cause` chains and AggregateError.errors.
+ */
+
+/** Default number of stack frames kept per error */
+export const DEFAULT_MAX_STACK_FRAMES = 20;
+
+/** Nested causes / aggregated errors deeper than this are reduced to "Name: message" */
+export const MAX_ERROR_DEPTH = 5;
+
+/** An Error as a plain object */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  code?: string | number;
+  cause?: unknown;
+  errors?: unknown[];
+  /** Custom fields set on the error, e.g. `status` */
+  [field: string]: unknown;
+}
+
+/** Serialization settings */
+export interface SerializeErrorOptions {
+  /** Keep at most this many stack frames per error (default: 20) */
+  maxStackFrames?: number;
+}
+
+const STACK_FRAME = /^\s+at /;
+
+/**
+ * Serialize an Error, its custom fields, cause chain and aggregated errors
+ */
+export function serializeError(error: Error, options: SerializeErrorOptions = {}): SerializedError {
+  const maxStackFrames = Math.max(0, options.maxStackFrames ?? DEFAULT_MAX_STACK_FRAMES);
+  return serialize(error, maxStackFrames, 0, new Set());
+}
+
+/**
+ * Replace top-level Error values in a tag object with their serialized form
+ */
+export function serializeErrorTags(
+  tags: Record<string, unknown>,
+  options: SerializeErrorOptions = {}
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(tags)) {
+    result[key] = value instanceof Error ? serializeError(value, options) : value;
+  }
+  return result;
+}
+
+/**
+ * Format an Error as text: its stack, then each cause as "Caused by: ..."
+ * and each aggregated error indented below it
+ */
+export function formatError(error: Error, options: SerializeErrorOptions = {}): string {
+  return formatSerialized(serializeError(error, options));
+}
+
+/**
+ * Drop stack frames beyond `maxFrames`, noting how many were dropped
+ */
+export function truncateStack(stack: string, maxFrames: number): string {
+  const lines = stack.split('\n');
+  const frameCount = lines.filter((line) => STACK_FRAME.test(line)).length;
+  if (frameCount <= maxFrames) {
+    return stack;
+  }
+
+  let kept = 0;
+  const result: string[] = [];
+  for (const line of lines) {
+    if (STACK_FRAME.test(line)) {
+      if (kept >= maxFrames) continue;
+      kept++;
+    }
+    result.push(line);
+  }
+  result.push(`    ... ${frameCount - maxFrames} more`);
+  return result.join('\n');
+}
+
+function serialize(error: Error, maxStackFrames: number, depth: number, seen: Set<Error>): SerializedError {
+  seen.add(error);
+  const result: SerializedError = { name: error.name, message: error.message };
+  if (error.stack) {
+    result.stack = truncateStack(error.stack, maxStackFrames);
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' || typeof code === 'number') {
+    result.code = code;
+  }
+
+  for (const [key, value] of Object.entries(error)) {
+    if (value === undefined || key in result || key === 'cause' || key === 'errors') continue;
+    result[key] = serializeNested(value, maxStackFrames, depth, seen);
+  }
+
+  if (error.cause !== undefined) {
+    result.cause = serializeNested(error.cause, maxStackFrames, depth, seen);
+  }
+  if (error instanceof AggregateError && Array.isArray(error.errors)) {
+    result.errors = error.errors.map((inner) => serializeNested(inner, maxStackFrames, depth, seen));
+  }
+  return result;
+}
+
+function serializeNested(value: unknown, maxStackFrames: number, depth: number, seen: Set<Error>): unknown {
+  if (!(value instanceof Error)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth + 1 >= MAX_ERROR_DEPTH) {
+    return `${value.name}: ${value.message}`;
+  }
+  return serialize(value, maxStackFrames, depth + 1, seen);
+}
+
+function formatSerialized(error: SerializedError): string {
+  let text = error.stack ?? `${error.name}: ${error.message}`;
+  for (const inner of error.errors ?? []) {
+    text += '\n' + indent(formatNested(inner));
+  }
+  if (error.cause !== undefined) {
+    text += `\nCaused by: ${formatNested(error.cause)}`;
+  }
+  return text;
+}
+
+function formatNested(value: unknown): string {
+  if (value !== null && typeof value === 'object' && 'name' in value && 'message' in value) {
+    return formatSerialized(value as SerializedError);
+  }
+  return typeof value === 'string' ? value : safeStringify(value);
+}
+
+function indent(text: string): string {
+  return text.replace(/^/gm, '    ');
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
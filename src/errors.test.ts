@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LogDotError,
+  LogDotAuthError,
+  LogDotRateLimitError,
+  LogDotValidationError,
+  LogDotServerError,
+  LogDotTimeoutError,
+  LogDotNetworkError,
+  errorFromResponse,
+  toLogDotError,
+} from './errors';
+import { CircuitOpenError } from './circuit-breaker';
+
+describe('errorFromResponse', () => {
+  it('should map statuses to error classes', () => {
+    expect(errorFromResponse({ status: 401, data: null })).toBeInstanceOf(LogDotAuthError);
+    expect(errorFromResponse({ status: 403, data: null })).toBeInstanceOf(LogDotAuthError);
+    expect(errorFromResponse({ status: 429, data: null })).toBeInstanceOf(LogDotRateLimitError);
+    expect(errorFromResponse({ status: 408, data: null })).toBeInstanceOf(LogDotTimeoutError);
+    expect(errorFromResponse({ status: 400, data: null })).toBeInstanceOf(LogDotValidationError);
+    expect(errorFromResponse({ status: 413, data: null })).toBeInstanceOf(LogDotValidationError);
+    expect(errorFromResponse({ status: 503, data: null })).toBeInstanceOf(LogDotServerError);
+  });
+
+  it('should carry status, response body and attempts', () => {
+    const error = errorFromResponse({ status: 422, data: { error: 'bad severity' }, attempts: 1 });
+
+    expect(error).toBeInstanceOf(LogDotError);
+    expect(error.message).toBe('LogDot API returned HTTP 422');
+    expect(error.status).toBe(422);
+    expect(error.responseBody).toEqual({ error: 'bad severity' });
+    expect(error.attempts).toBe(1);
+  });
+
+  it('should expose Retry-After on rate limit errors', () => {
+    const error = errorFromResponse({ status: 429, data: null, headers: { 'retry-after': '3' } });
+    expect((error as LogDotRateLimitError).retryAfterMs).toBe(3000);
+  });
+
+  it('should accept a custom message', () => {
+    expect(errorFromResponse({ status: 500, data: null }, 'batch failed').message).toBe('batch failed');
+  });
+});
+
+describe('toLogDotError', () => {
+  it('should wrap network failures and keep the cause', () => {
+    const cause = new Error('ECONNREFUSED');
+    const error = toLogDotError(cause, 3);
+
+    expect(error).toBeInstanceOf(LogDotNetworkError);
+    expect(error.message).toBe('ECONNREFUSED');
+    expect(error.cause).toBe(cause);
+    expect(error.attempts).toBe(3);
+  });
+
+  it('should map aborts to timeout errors', () => {
+    const abort = new Error('This operation was aborted');
+    abort.name = 'AbortError';
+
+    expect(toLogDotError(abort)).toBeInstanceOf(LogDotTimeoutError);
+  });
+
+  it('should pass LogDot errors through unchanged', () => {
+    const open = new CircuitOpenError(1000);
+
+    expect(open).toBeInstanceOf(LogDotError);
+    expect(toLogDotError(open)).toBe(open);
+  });
+});
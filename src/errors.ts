@@ -0,0 +1,153 @@
+/**
+ * LogDot error hierarchy
+ *
+ * Every failure surfaced by the SDK in `throwOnError` mode is a LogDotError
+ * subclass, so callers can tell a revoked key from a transient outage:
+ *
+ * - LogDotAuthError       401 / 403
+ * - LogDotRateLimitError  429 (with retryAfterMs when the server sent one)
+ * - LogDotValidationError other 4xx, and SDK usage errors
+ * - LogDotServerError     5xx after retries were exhausted
+ * - LogDotTimeoutError    408, no response within the timeout, or deadlineMs exceeded
+ * - LogDotNetworkError    connection failures and other transport errors
+ * - LogDotAbortError      cancelled through the caller's AbortSignal
+ */
+
+import { parseRetryAfter } from './utils';
+import type { HttpResponse } from './types';
+
+/** Extra information attached to a LogDotError */
+export interface LogDotErrorDetails {
+  /** HTTP status of the final attempt, if a response was received */
+  status?: number;
+  /** Parsed response body of the final attempt */
+  responseBody?: unknown;
+  /** Number of attempts made */
+  attempts?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all LogDot SDK errors
+ */
+export class LogDotError extends Error {
+  readonly status?: number;
+  readonly responseBody?: unknown;
+  readonly attempts?: number;
+
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = 'LogDotError';
+    this.status = details.status;
+    this.responseBody = details.responseBody;
+    this.attempts = details.attempts;
+  }
+}
+
+/** The API key was rejected (401) or lacks permission (403) */
+export class LogDotAuthError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotAuthError';
+  }
+}
+
+/** The request was rate limited (429) */
+export class LogDotRateLimitError extends LogDotError {
+  /** Server-requested delay before retrying, if provided */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: LogDotErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
+    this.name = 'LogDotRateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** The request was rejected as invalid (4xx) or the SDK was misused */
+export class LogDotValidationError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotValidationError';
+  }
+}
+
+/** The server kept failing (5xx) until retries were exhausted */
+export class LogDotServerError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotServerError';
+  }
+}
+
+/** No response arrived in time */
+export class LogDotTimeoutError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotTimeoutError';
+  }
+}
+
+/** The request could not be delivered (DNS, connection refused, reset, ...) */
+export class LogDotNetworkError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotNetworkError';
+  }
+}
+
+/** The caller aborted the operation through its AbortSignal */
+export class LogDotAbortError extends LogDotError {
+  constructor(message: string, details: LogDotErrorDetails = {}) {
+    super(message, details);
+    this.name = 'LogDotAbortError';
+  }
+}
+
+/**
+ * Build the typed error for an unsuccessful HTTP response
+ */
+export function errorFromResponse(
+  response: HttpResponse,
+  message: string = `LogDot API returned HTTP ${response.status}`
+): LogDotError {
+  const { status } = response;
+  const details: LogDotErrorDetails = {
+    status,
+    responseBody: response.data ?? undefined,
+    attempts: response.attempts,
+  };
+
+  if (status === 401 || status === 403) {
+    return new LogDotAuthError(message, details);
+  }
+  if (status === 429) {
+    return new LogDotRateLimitError(message, {
+      ...details,
+      retryAfterMs: parseRetryAfter(response.headers?.['retry-after']),
+    });
+  }
+  if (status === 408) {
+    return new LogDotTimeoutError(message, details);
+  }
+  if (status >= 500) {
+    return new LogDotServerError(message, details);
+  }
+  return new LogDotValidationError(message, details);
+}
+
+/**
+ * Wrap a thrown value in a LogDotError (LogDotErrors pass through unchanged)
+ */
+export function toLogDotError(error: unknown, attempts?: number): LogDotError {
+  if (error instanceof LogDotError) {
+    return error;
+  }
+
+  const err = error instanceof Error ? error : new Error(String(error));
+  if (err.name === 'AbortError' || err.name === 'TimeoutError') {
+    return new LogDotTimeoutError('Request timed out', { attempts, cause: err });
+  }
+  return new LogDotNetworkError(err.message, { attempts, cause: err });
+}
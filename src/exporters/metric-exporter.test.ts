@@ -11,8 +11,8 @@ const mockGet = vi.fn().mockResolvedValue({
   data: { data: { id: 'entity-uuid-123' } },
 });
 
-vi.mock('../http', () => ({
-  BASE_METRICS_URL: 'https://metrics.logdot.io/api/v1',
+vi.mock('../http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../http')>()),
   HttpClient: vi.fn().mockImplementation(() => ({
     post: mockPost,
     get: mockGet,
@@ -210,6 +210,22 @@ describe('LogDotMetricExporter', () => {
     });
   });
 
+  describe('metricsUrl', () => {
+    it('should use the configured metricsUrl for entity lookup and export', async () => {
+      const custom = new LogDotMetricExporter({
+        apiKey: 'test_key',
+        entityName: 'test-entity',
+        metricsUrl: 'http://localhost:9090',
+      });
+      const callback = vi.fn();
+      custom.export(makeResourceMetrics([{ value: 1 }]), callback);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(mockGet).toHaveBeenCalledWith('http://localhost:9090/entities/by-name/test-entity');
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:9090/metrics/batch', expect.any(Object), { spool: true });
+    });
+  });
+
   describe('selectAggregationTemporality', () => {
     it('should return DELTA (0)', () => {
       expect(exporter.selectAggregationTemporality(0)).toBe(0);
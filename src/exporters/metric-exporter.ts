@@ -13,13 +13,16 @@ import type {
 import { DataPointType } from '@opentelemetry/sdk-metrics';
 import type { ExportResult } from '@opentelemetry/core';
 import { ExportResultCode } from '@opentelemetry/core';
-import { HttpClient, BASE_METRICS_URL } from '../http.js';
+import { type HttpClient, resolveMetricsUrl } from '../http.js';
+import { createHttpClient } from '../http-options.js';
+import { resolveBatchLimits, sendChunks, splitBatch, jsonBytes, type BatchLimits } from '../batch.js';
+import { SelfReporter, StatsCollector } from '../stats.js';
+import type { ComponentOptions, SdkStats } from '../types.js';
 
-export interface LogDotMetricExporterConfig {
-  apiKey: string;
+export interface LogDotMetricExporterConfig extends ComponentOptions {
   entityName: string;
-  debug?: boolean;
-  timeout?: number;
+  /** Metrics API base URL (default: LOGDOT_METRICS_URL env var, then https://metrics.logdot.io/api/v1) */
+  metricsUrl?: string;
 }
 
 interface LogDotMetricPayload {
@@ -43,18 +46,28 @@ function formatTags(attributes: Record<string, unknown>): string[] | undefined {
 export class LogDotMetricExporter implements PushMetricExporter {
   private http: HttpClient;
   private entityName: string;
+  private metricsUrl: string;
   private entityId: string | null = null;
   private entityPromise: Promise<void> | null = null;
   private debugEnabled: boolean;
+  private batchLimits: BatchLimits;
+  private batchConcurrency?: number;
+  private stats = new StatsCollector();
+  private selfReporter: SelfReporter | null = null;
 
   constructor(config: LogDotMetricExporterConfig) {
-    this.http = new HttpClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout ?? 5000,
-      debug: config.debug ?? false,
-    });
+    this.http = createHttpClient(config, this.stats);
     this.entityName = config.entityName;
+    this.metricsUrl = resolveMetricsUrl(config.metricsUrl);
     this.debugEnabled = config.debug ?? false;
+    this.batchLimits = resolveBatchLimits(config);
+    this.batchConcurrency = config.batchConcurrency;
+
+    if (config.selfReport) {
+      const metricsUrl = config.selfReport.metricsUrl ? resolveMetricsUrl(config.selfReport.metricsUrl) : this.metricsUrl;
+      this.selfReporter = new SelfReporter(this.http, metricsUrl, config.selfReport, 'metric-exporter', this.stats);
+      this.selfReporter.start();
+    }
   }
 
   export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
@@ -66,8 +79,15 @@ export class LogDotMetricExporter implements PushMetricExporter {
       });
   }
 
+  /**
+   * Get delivery counters for exported metric points
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
   async shutdown(): Promise<void> {
-    // No persistent connections to clean up
+    this.selfReporter?.stop();
   }
 
   async forceFlush(): Promise<void> {
@@ -96,15 +116,24 @@ export class LogDotMetricExporter implements PushMetricExporter {
     }
 
     if (payloads.length === 0) return;
-
-    const url = `${BASE_METRICS_URL}/metrics/batch`;
-    const response = await this.http.post(url, {
-      entity_id: this.entityId,
-      metrics: payloads,
-    });
-
-    if (response.status !== 200 && response.status !== 201) {
-      throw new Error(`LogDot metrics batch failed with HTTP ${response.status}`);
+    this.stats.add('enqueued', payloads.length);
+
+    const url = `${this.metricsUrl}/metrics/batch`;
+    const entityId = this.entityId;
+    const limits = { ...this.batchLimits, overheadBytes: jsonBytes({ entity_id: entityId, metrics: [] }) };
+    const results = await sendChunks(
+      this.http,
+      url,
+      splitBatch(payloads, limits),
+      (chunk) => ({ entity_id: entityId, metrics: chunk }),
+      this.batchConcurrency,
+    );
+    this.stats.recordChunks(results);
+
+    const failed = results.filter((chunk) => !chunk.success);
+    if (failed.length > 0) {
+      this.log(`${failed.length} of ${results.length} batch requests failed`);
+      throw failed[0].error;
     }
   }
 
@@ -167,7 +196,7 @@ export class LogDotMetricExporter implements PushMetricExporter {
   private async resolveEntity(): Promise<void> {
     try {
       // Try to find existing entity
-      const getUrl = `${BASE_METRICS_URL}/entities/by-name/${encodeURIComponent(this.entityName)}`;
+      const getUrl = `${this.metricsUrl}/entities/by-name/${encodeURIComponent(this.entityName)}`;
       const getResponse = await this.http.get<{ data?: { id?: string } }>(getUrl);
 
       if (getResponse.status === 200 && getResponse.data?.data?.id) {
@@ -177,7 +206,7 @@ export class LogDotMetricExporter implements PushMetricExporter {
       }
 
       // Create new entity
-      const createUrl = `${BASE_METRICS_URL}/entities`;
+      const createUrl = `${this.metricsUrl}/entities`;
       const createResponse = await this.http.post<{ data?: { id?: string } }>(createUrl, {
         name: this.entityName,
         description: `Auto-instrumented: ${this.entityName}`,
@@ -5,8 +5,8 @@ import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
 import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
 
 // Mock HTTP client
-vi.mock('../http', () => ({
-  BASE_LOGS_URL: 'https://logs.logdot.io/api/v1',
+vi.mock('../http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../http')>()),
   HttpClient: vi.fn().mockImplementation(() => ({
     post: vi.fn().mockResolvedValue({ status: 200, data: {} }),
   })),
@@ -92,9 +92,18 @@ describe('LogDotSpanExporter', () => {
             expect.objectContaining({ severity: 'error' }),
           ]),
         }),
+        { spool: true },
       );
     });
 
+    it('should timestamp logs with the span start time', async () => {
+      exporter.export([makeSpan({ startTime: [1705311000, 123456789] })], vi.fn());
+      await new Promise((r) => setTimeout(r, 50));
+
+      const http = (exporter as any).http;
+      expect(http.post.mock.calls[0][1].logs[0].timestamp).toBe('2024-01-15T09:30:00.123456Z');
+    });
+
     it('should map SpanStatusCode.OK to info severity', async () => {
       const callback = vi.fn();
       const spans = [makeSpan({ status: { code: SpanStatusCode.OK } })];
@@ -110,6 +119,7 @@ describe('LogDotSpanExporter', () => {
             expect.objectContaining({ severity: 'info' }),
           ]),
         }),
+        { spool: true },
       );
     });
 
@@ -128,6 +138,7 @@ describe('LogDotSpanExporter', () => {
             expect.objectContaining({ severity: 'debug' }),
           ]),
         }),
+        { spool: true },
       );
     });
 
@@ -177,6 +188,37 @@ describe('LogDotSpanExporter', () => {
 
       expect(logs[0].message).toBe('[@opentelemetry/instrumentation-http] GET /api/users');
     });
+
+    it('should redact span names and attributes when redact is set', async () => {
+      const redacting = new LogDotSpanExporter({ apiKey: 'test_key', hostname: 'test-service', redact: true });
+      const span = makeSpan({
+        name: 'GET /users/bob@example.com',
+        attributes: { 'http.request.header.authorization': 'Bearer abc', 'http.method': 'GET' },
+      });
+      redacting.export([span], vi.fn());
+      await new Promise((r) => setTimeout(r, 50));
+
+      const logs = (redacting as any).http.post.mock.calls[0][1].logs;
+      expect(logs[0].message).toBe('[@opentelemetry/instrumentation-http] GET /users/[REDACTED]');
+      expect(logs[0].tags['http.request.header.authorization']).toBe('[REDACTED]');
+      expect(logs[0].tags['http.method']).toBe('GET');
+    });
+  });
+
+  describe('logsUrl', () => {
+    it('should post to the configured logsUrl', async () => {
+      const custom = new LogDotSpanExporter({
+        apiKey: 'test_key',
+        hostname: 'test-service',
+        logsUrl: 'http://localhost:8080/',
+      });
+      const callback = vi.fn();
+      custom.export([makeSpan()], callback);
+      await new Promise((r) => setTimeout(r, 50));
+
+      const http = (custom as any).http;
+      expect(http.post.mock.calls[0][0]).toBe('http://localhost:8080/logs/batch');
+    });
   });
 
   describe('shutdown', () => {
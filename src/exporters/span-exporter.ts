@@ -9,14 +9,20 @@ import type { SpanExporter, ReadableSpan } from '@opentelemetry/sdk-trace-base';
 import type { ExportResult } from '@opentelemetry/core';
 import { ExportResultCode } from '@opentelemetry/core';
 import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
-import { HttpClient, BASE_LOGS_URL } from '../http.js';
-import { truncateBytes } from '../utils.js';
-
-export interface LogDotSpanExporterConfig {
-  apiKey: string;
+import { type HttpClient, resolveLogsUrl, resolveMetricsUrl } from '../http.js';
+import { createHttpClient } from '../http-options.js';
+import { resolveBatchLimits, sendChunks, splitBatch, jsonBytes, type BatchLimits } from '../batch.js';
+import { SelfReporter, StatsCollector } from '../stats.js';
+import { createRedactor, type Redactor } from '../redaction.js';
+import type { ComponentOptions, SdkStats, RedactionConfig } from '../types.js';
+import { truncateBytes, formatTimestamp } from '../utils.js';
+
+export interface LogDotSpanExporterConfig extends ComponentOptions {
   hostname: string;
-  debug?: boolean;
-  timeout?: number;
+  /** Logs API base URL (default: LOGDOT_LOGS_URL env var, then https://logs.logdot.io/api/v1) */
+  logsUrl?: string;
+  /** Redact secrets and PII from span names and attributes; `true` applies every preset (default: disabled) */
+  redact?: RedactionConfig | boolean;
 }
 
 function spanKindToString(kind: SpanKind): string {
@@ -38,6 +44,10 @@ function severityFromStatus(statusCode: SpanStatusCode): string {
   }
 }
 
+function hrtimeToEpochMs(time: [number, number]): number {
+  return time[0] * 1000 + time[1] / 1e6;
+}
+
 function hrtimeDurationMs(startTime: [number, number], endTime: [number, number]): number {
   const seconds = endTime[0] - startTime[0];
   const nanos = endTime[1] - startTime[1];
@@ -64,16 +74,28 @@ function flattenAttributes(attrs: Record<string, unknown>): Record<string, unkno
 export class LogDotSpanExporter implements SpanExporter {
   private http: HttpClient;
   private hostname: string;
+  private logsUrl: string;
   private debugEnabled: boolean;
+  private batchLimits: BatchLimits;
+  private batchConcurrency?: number;
+  private stats = new StatsCollector();
+  private selfReporter: SelfReporter | null = null;
+  private redactor: Redactor | null;
 
   constructor(config: LogDotSpanExporterConfig) {
-    this.http = new HttpClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout ?? 5000,
-      debug: config.debug ?? false,
-    });
+    this.http = createHttpClient(config, this.stats);
     this.hostname = config.hostname;
+    this.logsUrl = resolveLogsUrl(config.logsUrl);
     this.debugEnabled = config.debug ?? false;
+    this.batchLimits = resolveBatchLimits(config);
+    this.batchConcurrency = config.batchConcurrency;
+    this.redactor = createRedactor(config.redact);
+
+    if (config.selfReport) {
+      const metricsUrl = resolveMetricsUrl(config.selfReport.metricsUrl);
+      this.selfReporter = new SelfReporter(this.http, metricsUrl, config.selfReport, 'span-exporter', this.stats);
+      this.selfReporter.start();
+    }
   }
 
   export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
@@ -85,8 +107,15 @@ export class LogDotSpanExporter implements SpanExporter {
       });
   }
 
+  /**
+   * Get delivery counters for exported spans
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
   async shutdown(): Promise<void> {
-    // No persistent connections to clean up
+    this.selfReporter?.stop();
   }
 
   async forceFlush(): Promise<void> {
@@ -101,9 +130,10 @@ export class LogDotSpanExporter implements SpanExporter {
       const durationMs = hrtimeDurationMs(span.startTime, span.endTime);
       const severity = severityFromStatus(span.status.code);
 
-      const message = truncateBytes(`[${lib}] ${span.name}`);
+      const name = this.redactor ? this.redactor.redactString(span.name) : span.name;
+      const message = truncateBytes(`[${lib}] ${name}`);
 
-      const tags: Record<string, unknown> = {
+      let tags: Record<string, unknown> = {
         trace_id: span.spanContext().traceId,
         span_id: span.spanContext().spanId,
         span_kind: spanKindToString(span.kind),
@@ -119,17 +149,31 @@ export class LogDotSpanExporter implements SpanExporter {
         tags.status_message = span.status.message;
       }
 
-      return { message, severity, tags };
-    });
+      if (this.redactor) {
+        tags = this.redactor.redactTags(tags);
+      }
 
-    const url = `${BASE_LOGS_URL}/logs/batch`;
-    const response = await this.http.post(url, {
-      hostname: this.hostname,
-      logs,
+      // Timestamp the log with when the span started, not when it was exported
+      return { message, severity, timestamp: formatTimestamp(hrtimeToEpochMs(span.startTime)), tags };
     });
 
-    if (response.status !== 200 && response.status !== 201) {
-      throw new Error(`LogDot logs batch failed with HTTP ${response.status}`);
+    this.stats.add('enqueued', logs.length);
+
+    const url = `${this.logsUrl}/logs/batch`;
+    const limits = { ...this.batchLimits, overheadBytes: jsonBytes({ hostname: this.hostname, logs: [] }) };
+    const results = await sendChunks(
+      this.http,
+      url,
+      splitBatch(logs, limits),
+      (chunk) => ({ hostname: this.hostname, logs: chunk }),
+      this.batchConcurrency,
+    );
+    this.stats.recordChunks(results);
+
+    const failed = results.filter((chunk) => !chunk.success);
+    if (failed.length > 0) {
+      this.log(`${failed.length} of ${results.length} batch requests failed`);
+      throw failed[0].error;
     }
   }
 
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHttpClient, pickComponentOptions, pickHttpOptions } from './http-options';
+import { StatsCollector } from './stats';
+
+describe('pickHttpOptions', () => {
+  it('should copy only the HttpClient options', () => {
+    const transport = { send: vi.fn() };
+    const config = { apiKey: 'k', transport, batchMaxEntries: 10, hostname: 'web', captureConsole: true };
+    const picked = pickHttpOptions(config);
+
+    expect(picked).toMatchObject({ apiKey: 'k', transport });
+    expect(picked).not.toHaveProperty('batchMaxEntries');
+    expect(picked).not.toHaveProperty('hostname');
+  });
+});
+
+describe('pickComponentOptions', () => {
+  it('should copy the HttpClient options plus the batch and self-report options', () => {
+    const transport = { send: vi.fn() };
+    const selfReport = { entityName: 'web-sdk' };
+    const config = { apiKey: 'k', transport, batchMaxEntries: 10, selfReport, hostname: 'web', captureConsole: true };
+    const picked = pickComponentOptions(config);
+
+    expect(picked).toMatchObject({ apiKey: 'k', transport, batchMaxEntries: 10, selfReport });
+    expect(picked).not.toHaveProperty('hostname');
+    expect(picked).not.toHaveProperty('captureConsole');
+  });
+});
+
+describe('createHttpClient', () => {
+  it('should apply the retry options and count into the given stats', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 503, body: '', headers: {} });
+    const stats = new StatsCollector();
+    const client = createHttpClient({ apiKey: 'k', transport: { send }, retryAttempts: 2, retryDelayMs: 1 }, stats);
+
+    await client.post('https://example.test/logs', {});
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(stats.snapshot().retries).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * HTTP options - Wiring the shared delivery options into an HttpClient
+ *
+ * Every component (clients, console capture, OTel exporters) accepts the
+ * same ComponentOptions and sends through its own HttpClient built from
+ * their HttpOptions part.
+ */
+
+import { HttpClient } from './http';
+import type { StatsCollector } from './stats';
+import type { BaseConfig, ComponentOptions, HttpOptions } from './types';
+
+/**
+ * Copy the HttpClient options out of a component's config
+ */
+export function pickHttpOptions(config: HttpOptions): HttpOptions {
+  return {
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    debug: config.debug,
+    transport: config.transport,
+    compression: config.compression,
+    compressionThresholdBytes: config.compressionThresholdBytes,
+    circuitBreaker: config.circuitBreaker,
+    proxy: config.proxy,
+    noProxy: config.noProxy,
+    keepAlive: config.keepAlive,
+    onRequest: config.onRequest,
+    onResponse: config.onResponse,
+    onError: config.onError,
+    spool: config.spool,
+    rateLimit: config.rateLimit,
+  };
+}
+
+/**
+ * Copy the shared component options out of a config, e.g. to configure
+ * the components Next.js init() creates
+ */
+export function pickComponentOptions(config: ComponentOptions): ComponentOptions {
+  return {
+    ...pickHttpOptions(config),
+    batchMaxBytes: config.batchMaxBytes,
+    batchMaxEntries: config.batchMaxEntries,
+    batchConcurrency: config.batchConcurrency,
+    selfReport: config.selfReport,
+  };
+}
+
+/**
+ * Build the HttpClient a component sends through
+ *
+ * @param stats - The component's collector, counting what the client sends
+ */
+export function createHttpClient(
+  config: HttpOptions & Pick<BaseConfig, 'retryAttempts' | 'retryDelayMs' | 'retryMaxDelayMs'>,
+  stats: StatsCollector
+): HttpClient {
+  return new HttpClient({
+    ...pickHttpOptions(config),
+    retry: {
+      maxAttempts: config.retryAttempts,
+      baseDelayMs: config.retryDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+    },
+    stats,
+  });
+}
@@ -0,0 +1,585 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gunzipSync, inflateSync } from 'zlib';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpClient, isRetryableStatus } from './http';
+import { parseRetryAfter } from './utils';
+import { CircuitOpenError } from './circuit-breaker';
+import { LogDotAbortError, LogDotNetworkError, LogDotTimeoutError } from './errors';
+import type { Transport, TransportRequest, TransportResponse } from './transport';
+
+function mockResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(body === null ? null : JSON.stringify(body), { status, headers });
+}
+
+describe('HttpClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: HttpClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    client = new HttpClient({
+      apiKey: 'test_key',
+      retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10 },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('retry on status', () => {
+    it('should retry 503 and return the eventual success', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(503))
+        .mockResolvedValueOnce(mockResponse(200, { ok: true }));
+
+      const response = await client.post('https://example.test/logs', {});
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(response.status).toBe(200);
+      expect(response.attempts).toBe(2);
+    });
+
+    it('should retry 408 and 429', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(408))
+        .mockResolvedValueOnce(mockResponse(429))
+        .mockResolvedValueOnce(mockResponse(201));
+
+      const response = await client.post('https://example.test/logs', {});
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(response.status).toBe(201);
+    });
+
+    it('should return the final status when attempts are exhausted', async () => {
+      fetchMock.mockImplementation(async () => mockResponse(502));
+
+      const response = await client.get('https://example.test/entities/by-name/x');
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(response.status).toBe(502);
+      expect(response.attempts).toBe(3);
+    });
+
+    it.each([400, 401, 403, 404, 413])('should not retry %i', async (status) => {
+      fetchMock.mockResolvedValue(mockResponse(status));
+
+      const response = await client.post('https://example.test/logs', {});
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(response.status).toBe(status);
+      expect(response.attempts).toBe(1);
+    });
+
+    it('should honour Retry-After on 429', async () => {
+      const slowClient = new HttpClient({
+        apiKey: 'test_key',
+        retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 5000 },
+      });
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(429, {}, { 'Retry-After': '1' }))
+        .mockResolvedValueOnce(mockResponse(200));
+
+      const started = Date.now();
+      const response = await slowClient.post('https://example.test/logs', {});
+
+      expect(response.status).toBe(200);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+    });
+
+    it('should cap Retry-After at maxDelayMs', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(503, {}, { 'Retry-After': '3600' }))
+        .mockResolvedValueOnce(mockResponse(200));
+
+      const started = Date.now();
+      await client.post('https://example.test/logs', {});
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('retry on network error', () => {
+    it('should retry thrown errors and rethrow the last one', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(client.post('https://example.test/logs', {})).rejects.toThrow('ECONNREFUSED');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wrap the final error in a LogDotNetworkError with the attempt count', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const error = await client.post('https://example.test/logs', {}).catch((e) => e);
+      expect(error).toBeInstanceOf(LogDotNetworkError);
+      expect(error.attempts).toBe(3);
+      expect(error.cause).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('response', () => {
+    it('should expose parsed body and lower-cased headers', async () => {
+      fetchMock.mockResolvedValue(mockResponse(200, { data: { id: 'abc' } }, { 'X-Request-Id': 'r1' }));
+
+      const response = await client.get<{ data: { id: string } }>('https://example.test/entities');
+
+      expect(response.data.data.id).toBe('abc');
+      expect(response.headers?.['x-request-id']).toBe('r1');
+    });
+  });
+});
+
+describe('HttpClient with custom transport', () => {
+  it('should send requests through the configured transport', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      send: async (request) => {
+        requests.push(request);
+        return { status: 201, body: '{"ok":true}', headers: { 'content-type': 'application/json' } };
+      },
+    };
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new HttpClient({ apiKey: 'test_key', transport });
+    const response = await client.post('https://example.test/logs', { message: 'hi' });
+
+    vi.unstubAllGlobals();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ status: 201, data: { ok: true }, attempts: 1 });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('https://example.test/logs');
+    expect(requests[0].headers.Authorization).toBe('Bearer test_key');
+    expect(requests[0].body).toBe('{"message":"hi"}');
+    expect(requests[0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should retry transport failures', async () => {
+    const send = vi.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'test_key',
+      transport: { send },
+      retry: { baseDelayMs: 1 },
+    });
+
+    const response = await client.get('https://example.test/entities');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(response.status).toBe(200);
+    expect(response.data).toBeNull();
+  });
+});
+
+describe('HttpClient compression', () => {
+  const largeBody = { logs: Array.from({ length: 50 }, (_, i) => ({ message: `entry ${i}`, severity: 'info' })) };
+
+  function recordingTransport(statuses: number[] = [200]) {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      send: async (request) => {
+        requests.push(request);
+        return { status: statuses[Math.min(requests.length - 1, statuses.length - 1)], body: '', headers: {} };
+      },
+    };
+    return { requests, transport };
+  }
+
+  it('should not compress by default', async () => {
+    const { requests, transport } = recordingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport });
+
+    await client.post('https://example.test/logs/batch', largeBody);
+
+    expect(requests[0].headers['Content-Encoding']).toBeUndefined();
+    expect(requests[0].body).toBe(JSON.stringify(largeBody));
+  });
+
+  it('should gzip bodies above the threshold', async () => {
+    const { requests, transport } = recordingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport, compression: 'gzip' });
+
+    await client.post('https://example.test/logs/batch', largeBody);
+
+    expect(requests[0].headers['Content-Encoding']).toBe('gzip');
+    const decoded = gunzipSync(requests[0].body as Uint8Array).toString();
+    expect(JSON.parse(decoded)).toEqual(largeBody);
+  });
+
+  it('should deflate bodies when configured', async () => {
+    const { requests, transport } = recordingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport, compression: 'deflate' });
+
+    await client.post('https://example.test/logs/batch', largeBody);
+
+    expect(requests[0].headers['Content-Encoding']).toBe('deflate');
+    expect(JSON.parse(inflateSync(requests[0].body as Uint8Array).toString())).toEqual(largeBody);
+  });
+
+  it('should leave bodies below the threshold uncompressed', async () => {
+    const { requests, transport } = recordingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport, compression: 'gzip', compressionThresholdBytes: 10_000 });
+
+    await client.post('https://example.test/logs', { message: 'small' });
+
+    expect(requests[0].headers['Content-Encoding']).toBeUndefined();
+    expect(requests[0].body).toBe('{"message":"small"}');
+  });
+
+  it('should fall back to uncompressed after a 415 and stay uncompressed', async () => {
+    const { requests, transport } = recordingTransport([415, 200]);
+    const client = new HttpClient({ apiKey: 'k', transport, compression: 'gzip' });
+
+    const first = await client.post('https://example.test/logs/batch', largeBody);
+    await client.post('https://example.test/logs/batch', largeBody);
+
+    expect(first.status).toBe(200);
+    expect(requests).toHaveLength(3);
+    expect(requests[0].headers['Content-Encoding']).toBe('gzip');
+    expect(requests[1].headers['Content-Encoding']).toBeUndefined();
+    expect(requests[1].body).toBe(JSON.stringify(largeBody));
+    expect(requests[2].headers['Content-Encoding']).toBeUndefined();
+  });
+});
+
+describe('HttpClient circuit breaker', () => {
+  it('should stop retrying and fail fast once the breaker opens', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 503, body: '', headers: {} });
+    const onStateChange = vi.fn();
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 5, baseDelayMs: 1 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 60000, onStateChange },
+    });
+
+    const response = await client.post('https://example.test/logs', {});
+
+    expect(response.status).toBe(503);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState()).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+
+    await expect(client.post('https://example.test/logs', {})).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count network errors as failures', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    await expect(client.get('https://example.test/entities')).rejects.toThrow('ECONNREFUSED');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  it('should not count client errors as failures', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 400, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await client.post('https://example.test/logs', {});
+
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should report closed when no breaker is configured', () => {
+    const client = new HttpClient({ apiKey: 'k' });
+    expect(client.getCircuitState()).toBe('closed');
+  });
+});
+
+describe('HttpClient hooks', () => {
+  it('should let onRequest add headers and replace the body', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      onRequest: (request) => {
+        request.headers['X-Tenant-Id'] = 'tenant-1';
+        request.body = `${request.body}\n`;
+      },
+    });
+
+    await client.post('https://example.test/logs', { a: 1 });
+
+    const sent: TransportRequest = send.mock.calls[0][0];
+    expect(sent.headers['X-Tenant-Id']).toBe('tenant-1');
+    expect(sent.headers.Authorization).toBe('Bearer k');
+    expect(sent.body).toBe('{"a":1}\n');
+  });
+
+  it('should await async onRequest hooks', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      onRequest: async (request) => {
+        await new Promise((r) => setTimeout(r, 5));
+        request.headers['X-Signature'] = 'signed';
+      },
+    });
+
+    await client.get('https://example.test/entities');
+
+    expect(send.mock.calls[0][0].headers['X-Signature']).toBe('signed');
+  });
+
+  it('should call onResponse for every attempt with its attempt number', async () => {
+    const send = vi.fn()
+      .mockResolvedValueOnce({ status: 503, body: '', headers: {} })
+      .mockResolvedValueOnce({ status: 200, body: '{}', headers: {} });
+    const onResponse = vi.fn();
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { baseDelayMs: 1 },
+      onResponse,
+    });
+
+    await client.post('https://example.test/logs', {});
+
+    expect(onResponse).toHaveBeenCalledTimes(2);
+    expect(onResponse.mock.calls[0][0].status).toBe(503);
+    expect(onResponse.mock.calls[0][1]).toMatchObject({ method: 'POST', url: 'https://example.test/logs', attempt: 1 });
+    expect(onResponse.mock.calls[1][1].attempt).toBe(2);
+    expect(onResponse.mock.calls[1][2]).toBeTypeOf('number');
+  });
+
+  it('should call onError when the transport fails', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('ECONNRESET'));
+    const onError = vi.fn();
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      onError,
+    });
+
+    await expect(client.get('https://example.test/entities')).rejects.toThrow('ECONNRESET');
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0].message).toBe('ECONNRESET');
+    expect(onError.mock.calls[1][1].attempt).toBe(2);
+  });
+
+  it('should ignore errors thrown by observer hooks', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      onResponse: () => { throw new Error('metrics backend down'); },
+    });
+
+    const response = await client.post('https://example.test/logs', {});
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('HttpClient spool', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'logdot-http-spool-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should spool payloads that exhaust their retries and replay them once delivery succeeds', async () => {
+    let online = false;
+    const delivered: string[] = [];
+    const send = vi.fn(async (request: TransportRequest) => {
+      if (!online) throw new Error('ECONNREFUSED');
+      delivered.push(request.body as string);
+      return { status: 200, body: '', headers: {} };
+    });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      spool: { directory },
+    });
+
+    const spooled = await client.post('https://example.test/logs', { message: 'first' }, { spool: true });
+    expect(spooled).toMatchObject({ spooled: true, attempts: 2 });
+
+    online = true;
+    await client.post('https://example.test/logs', { message: 'second' }, { spool: true });
+    await expect(client.replaySpool()).resolves.toBe(0);
+
+    await vi.waitFor(async () => {
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+    expect(delivered).toEqual(['{"message":"second"}', '{"message":"first"}']);
+  });
+
+  it('should spool retryable statuses but not client errors', async () => {
+    const send = vi.fn()
+      .mockResolvedValueOnce({ status: 503, body: '', headers: {} })
+      .mockResolvedValueOnce({ status: 400, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 1 },
+      spool: { directory },
+    });
+
+    await expect(client.post('https://example.test/logs', {}, { spool: true })).resolves.toMatchObject({
+      status: 503,
+      spooled: true,
+    });
+    await expect(client.post('https://example.test/logs', {}, { spool: true })).resolves.not.toHaveProperty('spooled');
+  });
+
+  it('should throw as usual without the spool option', async () => {
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')) },
+      retry: { maxAttempts: 1 },
+      spool: { directory },
+    });
+
+    await expect(client.post('https://example.test/entities', {})).rejects.toThrow('ECONNREFUSED');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
+
+describe('HttpClient cancellation', () => {
+  /** A transport that never answers until the request is aborted */
+  function hangingTransport() {
+    return {
+      send: vi.fn((request: TransportRequest) => new Promise<TransportResponse>((_, reject) => {
+        request.signal?.addEventListener('abort', () => {
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+        });
+      })),
+    };
+  }
+
+  it('should abort the in-flight request when the caller aborts', async () => {
+    const transport = hangingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport, timeout: 60000 });
+    const controller = new AbortController();
+
+    const pending = client.post('https://example.test/logs', {}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toBeInstanceOf(LogDotAbortError);
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send anything when the signal is already aborted', async () => {
+    const transport = hangingTransport();
+    const client = new HttpClient({ apiKey: 'k', transport });
+
+    await expect(client.get('https://example.test/entities', { signal: AbortSignal.abort() }))
+      .rejects.toBeInstanceOf(LogDotAbortError);
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying once the deadline passes, even during backoff', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 503, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 5, baseDelayMs: 60000, maxDelayMs: 60000 },
+    });
+
+    const error = await client.post('https://example.test/logs', {}, { deadlineMs: 20 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LogDotTimeoutError);
+    expect(error.message).toBe('Deadline of 20ms exceeded');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should free the half-open trial when it misses its deadline', async () => {
+    const send = vi.fn()
+      .mockResolvedValueOnce({ status: 503, body: '', headers: {} })
+      .mockImplementationOnce(hangingTransport().send)
+      .mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'k',
+      transport: { send },
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 10 },
+    });
+    await client.post('https://example.test/logs', {});
+    expect(client.getCircuitState()).toBe('open');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(client.post('https://example.test/logs', {}, { deadlineMs: 5 })).rejects.toBeInstanceOf(LogDotTimeoutError);
+    expect(client.getCircuitState()).toBe('half-open');
+
+    await expect(client.post('https://example.test/logs', {})).resolves.toMatchObject({ status: 200 });
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should spool on a missed deadline but not on an abort', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'logdot-http-cancel-'));
+    try {
+      const client = new HttpClient({ apiKey: 'k', transport: hangingTransport(), spool: { directory } });
+
+      await expect(client.post('https://example.test/logs', {}, { spool: true, signal: AbortSignal.abort() }))
+        .rejects.toBeInstanceOf(LogDotAbortError);
+      expect(await fs.readdir(directory)).toEqual([]);
+
+      await expect(client.post('https://example.test/logs', {}, { spool: true, deadlineMs: 5 }))
+        .resolves.toMatchObject({ spooled: true });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should classify statuses', () => {
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(599)).toBe(true);
+    expect(isRetryableStatus(200)).toBe(false);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(413)).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+  });
+
+  it('should parse HTTP-date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+  });
+
+  it('should clamp past dates to zero', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -2,18 +2,112 @@
  * HTTP Client with retry logic and exponential backoff
  */
 
-import type { RetryConfig, HttpResponse } from './types';
+import { gzip, deflate } from 'zlib';
+import { promisify } from 'util';
+import { parseRetryAfter } from './utils';
+import type {
+  RetryConfig,
+  HttpOptions,
+  HttpResponse,
+  CompressionEncoding,
+  CircuitState,
+  HookRequest,
+  RequestHook,
+  ResponseHook,
+  ErrorHook,
+  RequestOptions,
+} from './types';
+import { FetchTransport } from './transport';
+import { getSharedNodeTransport, hasEnvProxy } from './node-transport';
+import { CircuitBreaker } from './circuit-breaker';
+import { toLogDotError, LogDotAbortError, LogDotRateLimitError, type LogDotError } from './errors';
+import { throwIfAborted, withCancellation } from './cancellation';
+import { getSharedSpool, type Spool } from './spool';
+import { getSharedRateLimiter, type RateLimiter } from './rate-limiter';
+import type { Transport } from './transport';
+import type { StatsCollector } from './stats';
 
 /** Base URLs for LogDot API */
 export const BASE_LOGS_URL = 'https://logs.logdot.io/api/v1';
 export const BASE_METRICS_URL = 'https://metrics.logdot.io/api/v1';
 
+/** Environment variables that override the default base URLs */
+export const ENV_LOGS_URL = 'LOGDOT_LOGS_URL';
+export const ENV_METRICS_URL = 'LOGDOT_METRICS_URL';
+
+/**
+ * Resolve the logs API base URL.
+ *
+ * Precedence: explicit config value, then LOGDOT_LOGS_URL, then BASE_LOGS_URL.
+ */
+export function resolveLogsUrl(override?: string): string {
+  return normalizeBaseUrl(override || process.env[ENV_LOGS_URL] || BASE_LOGS_URL);
+}
+
+/**
+ * Resolve the metrics API base URL.
+ *
+ * Precedence: explicit config value, then LOGDOT_METRICS_URL, then BASE_METRICS_URL.
+ */
+export function resolveMetricsUrl(override?: string): string {
+  return normalizeBaseUrl(override || process.env[ENV_METRICS_URL] || BASE_METRICS_URL);
+}
+
+/**
+ * Strip trailing slashes so endpoint paths can be appended directly
+ */
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
 /** HTTP client configuration */
-export interface HttpClientConfig {
-  apiKey: string;
-  timeout?: number;
-  debug?: boolean;
+export interface HttpClientConfig extends HttpOptions {
   retry?: Partial<RetryConfig>;
+  /** Collector that counts attempts, retries, status codes and bytes sent */
+  stats?: StatsCollector;
+}
+
+/** Per-request options for HttpClient.post */
+export interface PostOptions extends RequestOptions {
+  /** Write the payload to the spool if it cannot be delivered (default: false) */
+  spool?: boolean;
+}
+
+/** Default minimum body size worth compressing */
+const DEFAULT_COMPRESSION_THRESHOLD_BYTES = 1024;
+
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
+/** Status codes that indicate a transient failure worth retrying */
+const RETRYABLE_STATUS_CODES = new Set([408, 429]);
+
+/**
+ * Whether a response status should be retried.
+ *
+ * 408, 429 and all 5xx responses are retried; every other status
+ * (including 400, 401, 403 and 413) is returned to the caller as-is.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.has(status) || (status >= 500 && status <= 599);
+}
+
+/**
+ * Pick the transport for a client without an explicit one.
+ *
+ * Proxied or keep-alive clients share a pooled NodeHttpTransport per
+ * distinct proxy/keep-alive setting; everything else uses global fetch.
+ */
+function defaultTransport(config: HttpClientConfig): Transport {
+  const proxied = config.proxy !== false && (Boolean(config.proxy) || hasEnvProxy());
+  if (proxied || config.keepAlive) {
+    return getSharedNodeTransport({
+      proxy: config.proxy,
+      noProxy: config.noProxy,
+      keepAlive: config.keepAlive ?? true,
+    });
+  }
+  return new FetchTransport();
 }
 
 /**
@@ -24,134 +118,401 @@ export class HttpClient {
   private timeout: number;
   private debugEnabled: boolean;
   private retryConfig: RetryConfig;
+  private transport: Transport;
+  private compression: CompressionEncoding | false;
+  private compressionThresholdBytes: number;
+  private circuitBreaker: CircuitBreaker | null;
+  private onRequest?: RequestHook;
+  private onResponse?: ResponseHook;
+  private onError?: ErrorHook;
+  private spool: Spool | null;
+  private rateLimiter: RateLimiter | null;
+  private stats?: StatsCollector;
 
   constructor(config: HttpClientConfig) {
     this.apiKey = config.apiKey;
     this.timeout = config.timeout ?? 5000;
     this.debugEnabled = config.debug ?? false;
     this.retryConfig = {
-      maxAttempts: config.retry?.maxAttempts ?? 3,
+      maxAttempts: Math.max(1, config.retry?.maxAttempts ?? 3),
       baseDelayMs: config.retry?.baseDelayMs ?? 1000,
       maxDelayMs: config.retry?.maxDelayMs ?? 30000,
     };
+    this.transport = config.transport ?? defaultTransport(config);
+    this.compression = config.compression ?? false;
+    this.compressionThresholdBytes = config.compressionThresholdBytes ?? DEFAULT_COMPRESSION_THRESHOLD_BYTES;
+    this.circuitBreaker = config.circuitBreaker ? new CircuitBreaker(config.circuitBreaker) : null;
+    this.onRequest = config.onRequest;
+    this.onResponse = config.onResponse;
+    this.onError = config.onError;
+    this.spool = config.spool ? getSharedSpool(config.spool) : null;
+    this.rateLimiter = config.rateLimit ? getSharedRateLimiter(config.apiKey, config.rateLimit) : null;
+    this.stats = config.stats;
+
+    // Deliver anything left over from a previous run
+    if (this.spool) {
+      this.scheduleReplay();
+    }
+  }
+
+  /**
+   * Get the circuit breaker state ('closed' when no breaker is configured)
+   */
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker?.getState() ?? 'closed';
+  }
+
+  /**
+   * Get the number of requests dropped by the client-side rate limit
+   * (shared with other clients using the same limiter)
+   */
+  getRateLimitDroppedCount(): number {
+    return this.rateLimiter?.getDroppedCount() ?? 0;
   }
 
   /**
    * Perform a POST request with retry logic
+   *
+   * With `{ spool: true }` and a configured spool, a payload that still
+   * fails after all retries (network error, timeout, open circuit or a
+   * retryable status) is written to disk for later replay, and the
+   * response is returned with `spooled: true` instead of throwing.
+   *
+   * With a rate limit configured, every attempt (retries included) waits
+   * for budget; a request the limiter drops rejects with
+   * LogDotRateLimitError without further retries and is never spooled.
+   *
+   * `signal` and `deadlineMs` cover the whole call, including retries and
+   * backoff. An aborted call rejects with LogDotAbortError and is not
+   * spooled; a missed deadline rejects with LogDotTimeoutError (and is
+   * spooled like any other timeout).
    */
-  async post<T = unknown>(url: string, body: unknown): Promise<HttpResponse<T>> {
-    return this.executeWithRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  post<T = unknown>(url: string, body: unknown, options: PostOptions = {}): Promise<HttpResponse<T>> {
+    return withCancellation(options, (signal) => this.postWithSignal<T>(url, body, options.spool ?? false, signal));
+  }
+
+  private async postWithSignal<T>(
+    url: string,
+    body: unknown,
+    spoolOnFailure: boolean,
+    signal?: AbortSignal
+  ): Promise<HttpResponse<T>> {
+    const json = JSON.stringify(body);
+    const compressed = await this.compress(json);
+    const spool = spoolOnFailure ? this.spool : null;
+
+    let response: HttpResponse<T>;
+    try {
+      response = await this.sendPost<T>(url, json, compressed, signal);
+    } catch (error) {
+      const undeliverable = !(error instanceof LogDotAbortError || error instanceof LogDotRateLimitError);
+      if (spool && undeliverable && (await this.spoolPayload(spool, url, body))) {
+        return { status: 0, data: null as T, attempts: (error as LogDotError).attempts, spooled: true };
+      }
+      throw error;
+    }
+
+    if (spool && isRetryableStatus(response.status) && (await this.spoolPayload(spool, url, body))) {
+      return { ...response, spooled: true };
+    }
+
+    // A delivered request means the backend is reachable again
+    if (this.spool && response.status >= 200 && response.status < 300) {
+      this.scheduleReplay();
+    }
 
+    return response;
+  }
+
+  /**
+   * Resend spooled payloads oldest-first, stopping at the first one that
+   * still fails. Payloads the server rejects outright (a non-retryable
+   * error status) are discarded, since they would never be accepted.
+   *
+   * @returns Number of payloads removed from the spool
+   */
+  async replaySpool(): Promise<number> {
+    if (!this.spool) return 0;
+
+    return this.spool.replay(async (record) => {
+      let response: HttpResponse;
       try {
-        this.log(`POST ${url}`);
-        this.log(`Payload: ${JSON.stringify(body)}`);
-
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-          },
-          body: JSON.stringify(body),
-          signal: controller.signal,
-        });
+        response = await this.post(record.url, record.body);
+      } catch {
+        return false;
+      }
 
-        clearTimeout(timeoutId);
+      if (isRetryableStatus(response.status)) {
+        return false;
+      }
+      if (response.status >= 300) {
+        this.log(`Discarding spooled payload for ${record.url} - HTTP ${response.status}`);
+      }
+      return true;
+    });
+  }
 
-        let data: T | null = null;
-        const text = await response.text();
-        if (text) {
-          try {
-            data = JSON.parse(text) as T;
-          } catch {
-            // Response is not JSON
-          }
-        }
+  /**
+   * Send a serialized POST body with retry, compressing when enabled
+   */
+  private sendPost<T>(
+    url: string,
+    json: string,
+    compressed: Uint8Array | null,
+    signal?: AbortSignal
+  ): Promise<HttpResponse<T>> {
+    return this.executeWithRetry(signal, async (attempt) => {
+      this.log(`POST ${url}`);
+      this.log(`Payload: ${json}`);
 
-        this.log(`Response status: ${response.status}`);
-        if (data) {
-          this.log(`Response body: ${JSON.stringify(data)}`);
+      if (compressed && this.compression) {
+        const response = await this.request<T>('POST', url, attempt, signal, compressed, this.compression);
+        if (response.status !== 415) {
+          return response;
         }
-
-        return {
-          status: response.status,
-          data: data as T,
-        };
-      } catch (error) {
-        clearTimeout(timeoutId);
-        throw error;
+        // Server does not accept compressed bodies; stop compressing for this client
+        this.log(`Server rejected ${this.compression} body (HTTP 415), falling back to uncompressed`);
+        this.compression = false;
       }
+
+      return this.request<T>('POST', url, attempt, signal, json);
     });
   }
 
   /**
    * Perform a GET request with retry logic
    */
-  async get<T = unknown>(url: string): Promise<HttpResponse<T>> {
-    return this.executeWithRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      try {
+  get<T = unknown>(url: string, options: RequestOptions = {}): Promise<HttpResponse<T>> {
+    return withCancellation(options, (signal) =>
+      this.executeWithRetry(signal, (attempt) => {
         this.log(`GET ${url}`);
+        return this.request<T>('GET', url, attempt, signal);
+      })
+    );
+  }
 
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-          },
-          signal: controller.signal,
-        });
+  /**
+   * Perform a single HTTP request (one attempt, no retry)
+   *
+   * Runs the onRequest hook before sending, then onResponse or onError
+   * once the attempt settles. Errors thrown by onResponse/onError are
+   * ignored; an error from onRequest fails the attempt.
+   *
+   * With a rate limit configured, the attempt waits for a token and for
+   * the byte budget of the body it is about to send.
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    attempt: number,
+    signal?: AbortSignal,
+    body?: string | Uint8Array,
+    contentEncoding?: CompressionEncoding
+  ): Promise<HttpResponse<T>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`,
+    };
+    if (contentEncoding) {
+      headers['Content-Encoding'] = contentEncoding;
+    }
 
-        clearTimeout(timeoutId);
+    const hookRequest: HookRequest = { method, url, headers, body, attempt };
+    await this.onRequest?.(hookRequest);
 
-        let data: T | null = null;
-        const text = await response.text();
-        if (text) {
-          try {
-            data = JSON.parse(text) as T;
-          } catch {
-            // Response is not JSON
-          }
-        }
+    const bytes = typeof hookRequest.body === 'string' ? Buffer.byteLength(hookRequest.body) : hookRequest.body?.byteLength ?? 0;
+    await this.rateLimiter?.acquire(bytes, signal);
+    throwIfAborted(signal);
 
-        this.log(`Response status: ${response.status}`);
+    // Abort on the per-attempt timeout or when the whole operation is cancelled
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+    const startedAt = Date.now();
+    if (attempt > 1) {
+      this.stats?.add('retries');
+    }
 
-        return {
-          status: response.status,
-          data: data as T,
-        };
+    try {
+      let response;
+      try {
+        response = await this.transport.send({
+          method: hookRequest.method,
+          url: hookRequest.url,
+          headers: hookRequest.headers,
+          body: hookRequest.body,
+          signal: controller.signal,
+        });
       } catch (error) {
-        clearTimeout(timeoutId);
+        this.stats?.recordNetworkError(bytes);
+        await this.runHook(() => this.onError?.(error as Error, hookRequest, Date.now() - startedAt));
         throw error;
       }
+
+      this.stats?.recordResponse(response.status, bytes);
+      await this.runHook(() => this.onResponse?.(response, hookRequest, Date.now() - startedAt));
+
+      let data: T | null = null;
+      if (response.body) {
+        try {
+          data = JSON.parse(response.body) as T;
+        } catch {
+          // Response is not JSON
+        }
+      }
+
+      this.log(`Response status: ${response.status}`);
+      if (data) {
+        this.log(`Response body: ${JSON.stringify(data)}`);
+      }
+
+      return {
+        status: response.status,
+        data: data as T,
+        headers: response.headers,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  /**
+   * Start a background spool replay
+   */
+  private scheduleReplay(): void {
+    this.replaySpool().catch((error) => {
+      this.log(`Spool replay failed: ${(error as Error).message}`);
     });
   }
 
   /**
-   * Execute a function with exponential backoff retry
+   * Write an undeliverable payload to the spool. Returns false if the
+   * spool itself failed (e.g. the disk is full).
    */
-  private async executeWithRetry<T>(fn: () => Promise<T>): Promise<T> {
+  private async spoolPayload(spool: Spool, url: string, body: unknown): Promise<boolean> {
+    try {
+      await spool.append(url, body);
+      this.log(`Spooled undelivered payload for ${url}`);
+      return true;
+    } catch (error) {
+      this.log(`Failed to spool payload: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Run an observer hook, swallowing anything it throws
+   */
+  private async runHook(hook: () => void | Promise<void>): Promise<void> {
+    try {
+      await hook();
+    } catch (error) {
+      this.log(`Hook failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Compress a serialized body if compression is enabled and the body
+   * is at least compressionThresholdBytes long. Returns null otherwise.
+   */
+  private async compress(json: string): Promise<Uint8Array | null> {
+    if (!this.compression || Buffer.byteLength(json) < this.compressionThresholdBytes) {
+      return null;
+    }
+    const compressed = this.compression === 'gzip' ? await gzipAsync(json) : await deflateAsync(json);
+    return new Uint8Array(compressed.buffer, compressed.byteOffset, compressed.byteLength);
+  }
+
+  /**
+   * Execute a request with exponential backoff retry.
+   *
+   * Thrown errors (network failures, timeouts) and retryable status codes
+   * are retried. When attempts are exhausted on a retryable status, the
+   * last response is returned so callers can see the final status.
+   *
+   * When a circuit breaker is configured, each attempt first asks it for
+   * permission; an open breaker throws CircuitOpenError without sending.
+   *
+   * Errors that survive every attempt are rethrown as LogDotNetworkError or
+   * LogDotTimeoutError carrying the attempt count. Once `signal` aborts,
+   * no further attempts are made and its reason is thrown. A rate limiter
+   * drop is thrown as is: the budget is ours, not the backend's.
+   */
+  private async executeWithRetry<T>(
+    signal: AbortSignal | undefined,
+    fn: (attempt: number) => Promise<HttpResponse<T>>
+  ): Promise<HttpResponse<T>> {
+    const { maxAttempts } = this.retryConfig;
     let lastError: Error | null = null;
+    let attemptsMade = 0;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const isLastAttempt = attempt === maxAttempts - 1;
+      throwIfAborted(signal);
+
+      // Throws CircuitOpenError (not retried) while the backend is considered down
+      this.circuitBreaker?.acquire();
 
-    for (let attempt = 0; attempt < this.retryConfig.maxAttempts; attempt++) {
       try {
-        return await fn();
+        const response = await fn(attempt + 1);
+        const retryable = isRetryableStatus(response.status);
+
+        if (retryable) {
+          this.circuitBreaker?.recordFailure();
+        } else {
+          this.circuitBreaker?.recordSuccess();
+        }
+
+        // Stop retrying once the breaker trips; further attempts would fail fast anyway
+        if (isLastAttempt || !retryable || this.getCircuitState() === 'open') {
+          return { ...response, attempts: attempt + 1 };
+        }
+
+        const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+        const delay = this.calculateDelay(attempt, retryAfterMs);
+        this.log(`Retry ${attempt + 1}/${maxAttempts} after ${delay}ms - HTTP ${response.status}`);
+        await this.sleep(delay, signal);
       } catch (error) {
+        // Cancellation is the caller's decision, not a backend failure,
+        // but a half-open trial slot must still be given back
+        if (signal?.aborted) {
+          this.circuitBreaker?.release();
+          throw signal.reason;
+        }
+        if (error instanceof LogDotRateLimitError) {
+          this.circuitBreaker?.release();
+          throw error;
+        }
         lastError = error as Error;
+        attemptsMade = attempt + 1;
+        this.circuitBreaker?.recordFailure();
 
-        if (attempt < this.retryConfig.maxAttempts - 1) {
-          const delay = this.calculateBackoff(attempt);
-          this.log(`Retry ${attempt + 1}/${this.retryConfig.maxAttempts} after ${delay}ms - Error: ${lastError.message}`);
-          await this.sleep(delay);
+        if (isLastAttempt || this.getCircuitState() === 'open') {
+          break;
         }
+
+        const delay = this.calculateDelay(attempt);
+        this.log(`Retry ${attempt + 1}/${maxAttempts} after ${delay}ms - Error: ${lastError.message}`);
+        await this.sleep(delay, signal);
       }
     }
 
-    throw lastError!;
+    throw toLogDotError(lastError, attemptsMade);
+  }
+
+  /**
+   * Calculate the delay before the next attempt.
+   *
+   * A server-provided Retry-After takes precedence over the computed
+   * backoff; both are capped at maxDelayMs.
+   */
+  private calculateDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.retryConfig.maxDelayMs);
+    }
+    return this.calculateBackoff(attempt);
   }
 
   /**
@@ -164,10 +525,20 @@ export class HttpClient {
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Sleep for specified milliseconds, rejecting early if `signal` aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -51,14 +51,89 @@ export { ConsoleCapture } from './console-capture';
 export type { ConsoleCaptureConfig } from './console-capture';
 
 // HTTP client (for advanced usage)
-export { HttpClient, BASE_LOGS_URL, BASE_METRICS_URL } from './http';
+export {
+  HttpClient,
+  BASE_LOGS_URL,
+  BASE_METRICS_URL,
+  resolveLogsUrl,
+  resolveMetricsUrl,
+} from './http';
+
+// Circuit breaker
+export { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+
+// Errors
+export {
+  LogDotError,
+  LogDotAuthError,
+  LogDotRateLimitError,
+  LogDotValidationError,
+  LogDotServerError,
+  LogDotTimeoutError,
+  LogDotNetworkError,
+  LogDotAbortError,
+} from './errors';
+export type { LogDotErrorDetails } from './errors';
+
+// Levels
+export { LEVEL_SEVERITY, levelFromSeverityNumber } from './levels';
+
+// Async context
+export { runWithContext, getAmbientContext } from './async-context';
+
+// Redaction
+export { Redactor, REDACTED, REDACTION_PRESETS } from './redaction';
+
+// Sampling
+export { Sampler } from './sampling';
+
+// Error serialization
+export { serializeError } from './error-serializer';
+export type { SerializedError, SerializeErrorOptions } from './error-serializer';
+
+// Spool (disk persistence for undeliverable payloads)
+export { Spool } from './spool';
+export type { SpoolRecord } from './spool';
+
+// Rate limiting
+export { RateLimiter } from './rate-limiter';
+
+// Transport (for custom networking)
+export { FetchTransport } from './transport';
+export type { Transport, TransportRequest, TransportResponse } from './transport';
+export { NodeHttpTransport } from './node-transport';
+export type { NodeHttpTransportOptions } from './node-transport';
 
 // Types
 export type {
   LogLevel,
+  LevelRules,
+  CompressionEncoding,
+  CircuitBreakerConfig,
+  CircuitState,
+  SpoolConfig,
+  RateLimitConfig,
+  RateLimitBehavior,
+  SdkStats,
+  SelfReportConfig,
+  RedactionConfig,
+  RedactionMode,
+  RedactionPreset,
+  SamplingConfig,
+  DedupConfig,
+  RequestOptions,
+  LogOptions,
+  BatchResult,
+  BatchChunkResult,
+  HookRequest,
+  RequestHook,
+  ResponseHook,
+  ErrorHook,
   LoggerConfig,
   MetricsConfig,
   BaseConfig,
+  ComponentOptions,
+  HttpOptions,
   LogEntry,
   MetricEntry,
   Entity,
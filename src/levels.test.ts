@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  isLevelEnabled,
+  isLogLevel,
+  levelForNamespace,
+  levelFromSeverityNumber,
+  parseLevelRules,
+  resolveLevel,
+  resolveLevelRules,
+  toApiSeverity,
+  ENV_LEVEL,
+  ENV_LEVELS,
+} from './levels';
+
+describe('levels', () => {
+  afterEach(() => {
+    delete process.env[ENV_LEVEL];
+    delete process.env[ENV_LEVELS];
+  });
+
+  it('should order levels by severity', () => {
+    expect(isLevelEnabled('error', 'warn')).toBe(true);
+    expect(isLevelEnabled('warn', 'warn')).toBe(true);
+    expect(isLevelEnabled('info', 'warn')).toBe(false);
+  });
+
+  it('should order the extended levels around the API levels', () => {
+    expect(isLevelEnabled('trace', 'debug')).toBe(false);
+    expect(isLevelEnabled('notice', 'info')).toBe(true);
+    expect(isLevelEnabled('notice', 'warn')).toBe(false);
+    expect(isLevelEnabled('fatal', 'critical')).toBe(true);
+  });
+
+  it('should map levels to API severities', () => {
+    expect(toApiSeverity('trace')).toBe('debug');
+    expect(toApiSeverity('notice')).toBe('info');
+    expect(toApiSeverity('critical')).toBe('error');
+    expect(toApiSeverity('fatal')).toBe('error');
+    expect(toApiSeverity('warn')).toBe('warn');
+  });
+
+  it('should map OpenTelemetry severity numbers to levels', () => {
+    expect(levelFromSeverityNumber(0)).toBe('trace');
+    expect(levelFromSeverityNumber(6)).toBe('debug');
+    expect(levelFromSeverityNumber(12)).toBe('notice');
+    expect(levelFromSeverityNumber(17)).toBe('error');
+    expect(levelFromSeverityNumber(24)).toBe('fatal');
+  });
+
+  it('should recognise level names only', () => {
+    expect(isLogLevel('info')).toBe(true);
+    expect(isLogLevel('toString')).toBe(false);
+    expect(isLogLevel(undefined)).toBe(false);
+  });
+
+  it('should default to debug', () => {
+    expect(resolveLevel()).toBe('debug');
+    expect(resolveLevel('warn')).toBe('warn');
+  });
+
+  it('should let LOGDOT_LEVEL override the configured level', () => {
+    process.env[ENV_LEVEL] = ' DEBUG ';
+    expect(resolveLevel('error')).toBe('debug');
+  });
+
+  it('should ignore an invalid LOGDOT_LEVEL', () => {
+    process.env[ENV_LEVEL] = 'verbose';
+    expect(resolveLevel('warn')).toBe('warn');
+  });
+
+  describe('namespaces', () => {
+    it('should parse rule strings, skipping malformed pairs', () => {
+      expect(parseLevelRules(' db.*=DEBUG, *=warn, http=verbose, =info, broken')).toEqual({
+        'db.*': 'debug',
+        '*': 'warn',
+      });
+    });
+
+    it('should let LOGDOT_LEVELS override configured rules per pattern', () => {
+      process.env[ENV_LEVELS] = 'db.*=trace';
+      expect(resolveLevelRules({ 'db.*': 'info', '*': 'warn' })).toEqual({ 'db.*': 'trace', '*': 'warn' });
+      expect(resolveLevelRules('http=error')).toEqual({ 'db.*': 'trace', http: 'error' });
+    });
+
+    it('should pick the most specific matching rule', () => {
+      const rules = { '*': 'warn', 'db.*': 'info', 'db.pool.*': 'debug', 'db.pool': 'error' } as const;
+
+      expect(levelForNamespace('db.pool', rules, 'debug')).toBe('error');
+      expect(levelForNamespace('db.pool.conn', rules, 'debug')).toBe('debug');
+      expect(levelForNamespace('db', rules, 'debug')).toBe('info');
+      expect(levelForNamespace('dbx', rules, 'debug')).toBe('warn');
+      expect(levelForNamespace('db', {}, 'notice')).toBe('notice');
+    });
+
+    it('should not apply rules to the unnamed root logger', () => {
+      expect(levelForNamespace(undefined, { '*': 'warn' }, 'debug')).toBe('debug');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Log levels - Severity ordering, minimum-level filtering and
+ * per-namespace levels for named loggers
+ */
+
+import type { ApiSeverity, LevelRules, LogLevel } from './types';
+
+/** Environment variable that overrides the configured minimum level */
+export const ENV_LEVEL = 'LOGDOT_LEVEL';
+
+/** Environment variable with per-namespace levels, e.g. "db.*=debug,*=warn" */
+export const ENV_LEVELS = 'LOGDOT_LEVELS';
+
+/**
+ * Numeric severity of each level; higher is more severe. The numbers are
+ * OpenTelemetry SeverityNumbers (TRACE=1, DEBUG=5, INFO=9, WARN=13,
+ * ERROR=17, FATAL=21), with notice and critical inside the INFO and
+ * ERROR ranges.
+ */
+export const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  notice: 11,
+  warn: 13,
+  error: 17,
+  critical: 19,
+  fatal: 21,
+};
+
+/** The API severity each level is sent as */
+export const API_SEVERITY: Record<LogLevel, ApiSeverity> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warn: 'warn',
+  error: 'error',
+  critical: 'error',
+  fatal: 'error',
+};
+
+/** Tag carrying the original level of logs whose level the API lacks */
+export const LEVEL_TAG = 'log_level';
+
+/** Default minimum level: send everything but trace */
+export const DEFAULT_LEVEL: LogLevel = 'debug';
+
+/**
+ * Whether a string names a log level
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEVEL_SEVERITY, value);
+}
+
+/**
+ * Resolve the minimum level.
+ *
+ * Precedence: LOGDOT_LEVEL (case-insensitive; ignored if it is not a
+ * level), then the configured level, then DEFAULT_LEVEL. The environment
+ * wins so a deployed service can be switched to debug without a code change.
+ */
+export function resolveLevel(configured?: LogLevel): LogLevel {
+  const fromEnv = process.env[ENV_LEVEL]?.trim().toLowerCase();
+  if (isLogLevel(fromEnv)) {
+    return fromEnv;
+  }
+  return configured ?? DEFAULT_LEVEL;
+}
+
+/**
+ * Parse per-namespace levels from "pattern=level" pairs separated by
+ * commas. Malformed pairs and unknown levels are ignored.
+ */
+export function parseLevelRules(spec: string): LevelRules {
+  const rules: LevelRules = {};
+  for (const pair of spec.split(',')) {
+    const [pattern, level] = pair.split('=').map((part) => part.trim());
+    const normalized = level?.toLowerCase();
+    if (pattern && isLogLevel(normalized)) {
+      rules[pattern] = normalized;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Resolve per-namespace levels: the configured rules, overridden pattern
+ * by pattern by those in LOGDOT_LEVELS
+ */
+export function resolveLevelRules(configured: LevelRules | string = {}): LevelRules {
+  const base = typeof configured === 'string' ? parseLevelRules(configured) : { ...configured };
+  return { ...base, ...parseLevelRules(process.env[ENV_LEVELS] ?? '') };
+}
+
+/**
+ * How specifically a pattern matches a logger name: -1 for no match,
+ * then `*` < `a.*` < `a.b.*` < an exact name. `a.*` matches `a` itself
+ * and every name below it.
+ */
+function matchSpecificity(pattern: string, name: string): number {
+  if (pattern === '*') {
+    return 0;
+  }
+  if (pattern === name) {
+    return Number.MAX_SAFE_INTEGER;
+  }
+  if (pattern.endsWith('.*')) {
+    const prefix = pattern.slice(0, -2);
+    if (name === prefix || name.startsWith(`${prefix}.`)) {
+      return prefix.length + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The level of the most specific rule matching a logger name, or
+ * `fallback` when none match. Rules only apply to named loggers, so the
+ * root logger always follows `fallback` (LOGDOT_LEVEL / setLevel()).
+ */
+export function levelForNamespace(name: string | undefined, rules: LevelRules, fallback: LogLevel): LogLevel {
+  if (name === undefined) {
+    return fallback;
+  }
+  let best = -1;
+  let result = fallback;
+  for (const [pattern, level] of Object.entries(rules)) {
+    const specificity = matchSpecificity(pattern, name);
+    if (specificity > best) {
+      best = specificity;
+      result = level;
+    }
+  }
+  return result;
+}
+
+/**
+ * The API severity for a level (unknown levels are passed through for
+ * the API to reject)
+ */
+export function toApiSeverity(level: LogLevel): ApiSeverity {
+  return (API_SEVERITY[level] as ApiSeverity | undefined) ?? (level as ApiSeverity);
+}
+
+/**
+ * The most severe level at or below an OpenTelemetry SeverityNumber
+ * (1-24); numbers below 1 map to trace
+ */
+export function levelFromSeverityNumber(severityNumber: number): LogLevel {
+  let result: LogLevel = 'trace';
+  for (const [level, severity] of Object.entries(LEVEL_SEVERITY) as Array<[LogLevel, number]>) {
+    if (severity <= severityNumber) {
+      result = level;
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether a log at `level` passes the `minimum` level. Unknown levels
+ * pass, so the API can reject them rather than them vanishing silently.
+ */
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  const severity = LEVEL_SEVERITY[level] as number | undefined;
+  return severity === undefined || severity >= LEVEL_SEVERITY[minimum];
+}
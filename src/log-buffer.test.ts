@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import { LogBuffer } from './log-buffer';
+import { StatsCollector } from './stats';
+import { FakeLogDotServer } from './testing';
+import { LogDotLogger } from './logger';
+import type { LogEntry } from './types';
+
+function entry(message: string): LogEntry {
+  return { message, level: 'info' };
+}
+
+describe('LogBuffer', () => {
+  let sent: string[][];
+  let send: Mock<[LogEntry[]], Promise<boolean>>;
+  let stats: StatsCollector;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    send = vi.fn(async (entries: LogEntry[]): Promise<boolean> => {
+      sent.push(entries.map((e) => e.message));
+      return true;
+    });
+    stats = new StatsCollector();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush on the interval', async () => {
+    const buffer = new LogBuffer({ flushIntervalMs: 1000 }, send, stats);
+    buffer.push(entry('a'));
+    buffer.push(entry('b'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sent).toEqual([['a', 'b']]);
+    expect(buffer.size()).toBe(0);
+    buffer.stop();
+  });
+
+  it('should flush as soon as maxBatchSize entries are buffered', async () => {
+    const buffer = new LogBuffer({ maxBatchSize: 2 }, send, stats);
+    buffer.push(entry('a'));
+    buffer.push(entry('b'));
+    buffer.push(entry('c'));
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent).toEqual([['a', 'b', 'c']]);
+    buffer.stop();
+  });
+
+  it('should drop the oldest entries beyond maxBufferSize', async () => {
+    const buffer = new LogBuffer({ maxBatchSize: 2, maxBufferSize: 2 }, send, stats);
+    send.mockImplementationOnce(() => new Promise(() => {})); // first flush never settles
+    buffer.push(entry('a'));
+    buffer.push(entry('b'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    buffer.push(entry('c'));
+    buffer.push(entry('d'));
+    buffer.push(entry('e'));
+
+    expect(buffer.size()).toBe(2);
+    expect(stats.snapshot()).toMatchObject({ dropped: 1, queueDepth: 2 });
+    buffer.stop();
+  });
+
+  it('should run flushes one at a time', async () => {
+    let release: (value: boolean) => void = () => {};
+    send.mockImplementationOnce(async (entries) => {
+      sent.push(entries.map((e) => e.message));
+      return new Promise<boolean>((resolve) => { release = resolve; });
+    });
+    const buffer = new LogBuffer({}, send, stats);
+    buffer.push(entry('a'));
+    const first = buffer.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    buffer.push(entry('b'));
+    const second = buffer.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual([['a']]);
+
+    release(true);
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+    expect(sent).toEqual([['a'], ['b']]);
+    buffer.stop();
+  });
+});
+
+describe('LogDotLogger autoBatch', () => {
+  let server: FakeLogDotServer;
+
+  beforeEach(() => {
+    server = new FakeLogDotServer();
+  });
+
+  function makeLogger(overrides: Record<string, unknown> = {}): LogDotLogger {
+    return new LogDotLogger({
+      apiKey: 'test_key',
+      hostname: 'test-service',
+      transport: server,
+      retryAttempts: 1,
+      autoBatch: true,
+      flushIntervalMs: 60000,
+      ...overrides,
+    });
+  }
+
+  it('should buffer logs from the logger and derived loggers until flushed', async () => {
+    const logger = makeLogger();
+    await expect(logger.info('one')).resolves.toBe(true);
+    await logger.withContext({ user_id: 1 }).warn('two');
+
+    expect(server.requests).toHaveLength(0);
+    expect(logger.getBufferSize()).toBe(2);
+
+    await expect(logger.flush()).resolves.toBe(true);
+    expect(server.requests).toHaveLength(1);
+    expect(server.logs).toEqual([
+      { hostname: 'test-service', message: 'one', severity: 'info', timestamp: expect.any(String) },
+      { hostname: 'test-service', message: 'two', severity: 'warn', timestamp: expect.any(String), tags: { user_id: 1 } },
+    ]);
+  });
+
+  it('should report failed flushes and not re-buffer', async () => {
+    const logger = makeLogger();
+    server.failNext(400);
+    await logger.info('rejected');
+
+    await expect(logger.flush()).resolves.toBe(false);
+    expect(logger.getBufferSize()).toBe(0);
+    expect(logger.getStats().failed).toBe(1);
+  });
+
+  it('should flush on shutdown', async () => {
+    const logger = makeLogger();
+    await logger.info('last words');
+
+    await expect(logger.shutdown()).resolves.toBe(true);
+    expect(server.logs.map((log) => log.message)).toEqual(['last words']);
+  });
+});
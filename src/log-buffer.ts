@@ -0,0 +1,117 @@
+/**
+ * Log Buffer - Background batching for LogDotLogger's autoBatch mode
+ *
+ * Log calls push entries into the buffer and return immediately. The
+ * buffer is flushed every `flushIntervalMs`, as soon as it holds
+ * `maxBatchSize` entries, and on demand. Once `maxBufferSize` entries are
+ * waiting (e.g. while the backend is unreachable), the oldest are dropped.
+ */
+
+import type { StatsCollector } from './stats';
+import type { LogEntry } from './types';
+
+/** Default interval between background flushes */
+export const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/** Default number of buffered entries that triggers a flush */
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/** Default cap on buffered entries */
+export const DEFAULT_MAX_BUFFER_SIZE = 10000;
+
+/** Buffer settings */
+export interface LogBufferOptions {
+  flushIntervalMs?: number;
+  maxBatchSize?: number;
+  maxBufferSize?: number;
+}
+
+export class LogBuffer {
+  private entries: LogEntry[] = [];
+  private maxBatchSize: number;
+  private maxBufferSize: number;
+  private send: (entries: LogEntry[]) => Promise<boolean>;
+  private stats: StatsCollector;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+  private flushQueued = false;
+
+  /**
+   * @param send - Deliver a drained set of entries; may throw in `throwOnError` mode
+   */
+  constructor(options: LogBufferOptions, send: (entries: LogEntry[]) => Promise<boolean>, stats: StatsCollector) {
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+    this.maxBufferSize = Math.max(this.maxBatchSize, options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE);
+    this.send = send;
+    this.stats = stats;
+
+    const timer = setInterval(() => this.flushInBackground(), options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    // Unref so the timer doesn't keep the process alive in scripts/tests
+    timer.unref?.();
+    this.timer = timer;
+  }
+
+  /**
+   * Buffer an entry, dropping the oldest one if the buffer is full
+   */
+  push(entry: LogEntry): void {
+    if (this.entries.length >= this.maxBufferSize) {
+      this.entries.shift();
+      this.stats.add('dropped');
+      this.stats.add('queueDepth', -1);
+    }
+    this.entries.push(entry);
+    this.stats.add('queueDepth');
+
+    if (this.entries.length >= this.maxBatchSize && !this.flushQueued) {
+      this.flushQueued = true;
+      this.flushInBackground();
+    }
+  }
+
+  /**
+   * Send everything buffered so far. Flushes run one at a time; a flush
+   * requested while another is in flight sends what arrived meanwhile.
+   *
+   * @returns true when every entry was delivered (or there was nothing to send)
+   */
+  flush(): Promise<boolean> {
+    const run = this.pending.then(() => this.drain());
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Get the number of buffered entries
+   */
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Stop the background timer (buffered entries are kept)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch(() => {
+      // Failures are counted and debug-logged by the sender
+    });
+  }
+
+  private async drain(): Promise<boolean> {
+    this.flushQueued = false;
+    if (this.entries.length === 0) {
+      return true;
+    }
+
+    const entries = this.entries.splice(0);
+    this.stats.add('queueDepth', -entries.length);
+    return this.send(entries);
+  }
+}
@@ -1,9 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LogDotLogger } from './logger';
+import { HttpClient } from './http';
+import { LogDotAuthError, LogDotNetworkError, LogDotValidationError } from './errors';
 
 // Mock the HTTP client
-vi.mock('./http', () => ({
-  BASE_LOGS_URL: 'https://logs.logdot.io/api/v1',
+vi.mock('./http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./http')>()),
   HttpClient: vi.fn().mockImplementation(() => ({
     post: vi.fn().mockResolvedValue({ status: 200, data: {} }),
   })),
@@ -59,6 +61,15 @@ describe('LogDotLogger', () => {
 
       expect(logger2.getContext()).toEqual({ env: 'prod' });
     });
+
+    it('should share the HTTP client instead of building one', () => {
+      vi.mocked(HttpClient).mockClear();
+
+      const derived = logger.withContext({ user_id: 123 }).child('db');
+
+      expect(HttpClient).not.toHaveBeenCalled();
+      expect((derived as any).http).toBe((logger as any).http);
+    });
   });
 
   describe('getContext', () => {
@@ -149,6 +160,410 @@ describe('LogDotLogger', () => {
     });
   });
 
+  describe('level', () => {
+    it('should drop logs below the configured level', async () => {
+      const warnLogger = new LogDotLogger({ apiKey: 'test', hostname: 'test', level: 'warn' });
+      await expect(warnLogger.info('skipped')).resolves.toBe(true);
+      await warnLogger.error('sent');
+
+      const http = (warnLogger as any).http;
+      expect(http.post).toHaveBeenCalledTimes(1);
+      expect(http.post.mock.calls[0][1].message).toBe('sent');
+    });
+
+    it('should not queue filtered logs in batch mode', async () => {
+      logger.setLevel('info');
+      logger.beginBatch();
+      await logger.debug('skipped');
+      await logger.info('queued');
+
+      expect(logger.getBatchSize()).toBe(1);
+    });
+
+    it('should not send trace logs by default', async () => {
+      await expect(logger.trace('skipped')).resolves.toBe(true);
+      expect((logger as any).http.post).not.toHaveBeenCalled();
+    });
+
+    it('should send extended levels as API severities with a log_level tag', async () => {
+      await logger.fatal('down', { service: 'db' });
+      await logger.error('plain');
+
+      const http = (logger as any).http;
+      expect(http.post.mock.calls[0][1]).toMatchObject({
+        severity: 'error',
+        tags: { log_level: 'fatal', service: 'db' },
+      });
+      expect(http.post.mock.calls[1][1].tags).toBeUndefined();
+    });
+
+    it('should share setLevel() with derived loggers', () => {
+      const child = logger.withContext({ request_id: 'abc' });
+      const grandchild = child.withContext({ step: 1 });
+
+      logger.setLevel('error');
+      expect(child.getLevel()).toBe('error');
+      expect(grandchild.isLevelEnabled('warn')).toBe(false);
+
+      grandchild.setLevel('debug');
+      expect(logger.getLevel()).toBe('debug');
+    });
+  });
+
+  describe('child', () => {
+    it('should tag logs with the dotted name', async () => {
+      const pool = logger.child('db').child('pool');
+      await pool.info('acquired');
+
+      expect(pool.getName()).toBe('db.pool');
+      expect((logger as any).http.post.mock.calls[0][1].tags).toEqual({ logger: 'db.pool' });
+    });
+
+    it('should keep the name and context across withContext()', () => {
+      const pool = logger.withContext({ region: 'eu' }).child('db').withContext({ shard: 2 });
+
+      expect(pool.getName()).toBe('db');
+      expect(pool.getContext()).toEqual({ region: 'eu', logger: 'db', shard: 2 });
+    });
+
+    it('should apply the most specific namespace level', async () => {
+      const configured = new LogDotLogger({ apiKey: 'test', hostname: 'test', levels: 'db.*=debug,*=warn' });
+      await configured.child('db.pool').debug('sent');
+      await configured.child('http').info('dropped');
+
+      const http = (configured as any).http;
+      expect(http.post).toHaveBeenCalledTimes(1);
+      expect(http.post.mock.calls[0][1].message).toBe('sent');
+    });
+
+    it('should leave the root logger to level and setLevel()', async () => {
+      const configured = new LogDotLogger({ apiKey: 'test', hostname: 'test', level: 'info', levels: '*=error' });
+      await configured.info('sent');
+      configured.setLevel('warn');
+      await configured.info('dropped');
+
+      const http = (configured as any).http;
+      expect(http.post).toHaveBeenCalledTimes(1);
+      expect(configured.child('db').getLevel()).toBe('error');
+    });
+
+    it('should set namespace levels at runtime', () => {
+      const cache = logger.child('cache');
+      logger.setLevel('trace', 'cache.*');
+
+      expect(cache.getLevel()).toBe('trace');
+      expect(logger.getLevel()).toBe('debug');
+      expect(logger.child('db').isLevelEnabled('trace')).toBe(false);
+    });
+  });
+
+  describe('message templates', () => {
+    it('should render placeholders from tags and send the template', async () => {
+      await logger.withContext({ tenant: 'acme' }).info('User {userId} logged in to {tenant}', { userId: 42 });
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.message).toBe('User 42 logged in to acme');
+      expect(payload.tags).toEqual({ message_template: 'User {userId} logged in to {tenant}', tenant: 'acme', userId: 42 });
+    });
+
+    it('should format printf-style messages with logf() and friends', async () => {
+      await logger.infof('Loaded %d items from %s', 3, 'cache');
+      await logger.logf('warn', '%s took %dms', 'query', 120.5);
+
+      const http = (logger as any).http;
+      expect(http.post.mock.calls[0][1].message).toBe('Loaded 3 items from cache');
+      expect(http.post.mock.calls[0][1].tags).toEqual({ message_template: 'Loaded %d items from %s' });
+      expect(http.post.mock.calls[1][1]).toMatchObject({ message: 'query took 120.5ms', severity: 'warn' });
+    });
+
+    it('should send a trailing object after the printf arguments as tags', async () => {
+      await logger.withContext({ tenant: 'acme' }).errorf('Import of %s failed: %j', 'users', { code: 7 }, { job: 'import' });
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.message).toBe('Import of users failed: {"code":7}');
+      expect(payload.tags).toEqual({ message_template: 'Import of %s failed: %j', tenant: 'acme', job: 'import' });
+    });
+
+    it('should leave plain messages without a template tag', async () => {
+      await logger.info('Nothing to {fill}');
+
+      expect((logger as any).http.post.mock.calls[0][1].tags).toBeUndefined();
+    });
+
+    it('should group per-message sampling limits by template', async () => {
+      const sampled = new LogDotLogger({ apiKey: 'test', hostname: 'test', sampling: { perMessage: { limit: 1 } } });
+      await sampled.info('User {userId} logged in', { userId: 1 });
+      await sampled.info('User {userId} logged in', { userId: 2 });
+
+      expect((sampled as any).http.post).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sampling', () => {
+    it('should drop sampled-out logs and tag kept ones with the rate', async () => {
+      const sampled = new LogDotLogger({
+        apiKey: 'test',
+        hostname: 'test',
+        sampling: { rates: { info: 0.5 } },
+      });
+      await sampled.info('kept', { trace_id: 'a' });
+      await sampled.info('dropped', { trace_id: 'b' });
+      await sampled.error('always kept', { trace_id: 'b' });
+
+      const http = (sampled as any).http;
+      expect(http.post.mock.calls.map((call: any[]) => call[1].message)).toEqual(['kept', 'always kept']);
+      expect(http.post.mock.calls[0][1].tags).toEqual({ trace_id: 'a', sample_rate: 0.5 });
+      expect(http.post.mock.calls[1][1].tags).toEqual({ trace_id: 'b' });
+    });
+
+    it('should share per-message limits with derived loggers', async () => {
+      const sampled = new LogDotLogger({ apiKey: 'test', hostname: 'test', sampling: { perMessage: { limit: 1 } } });
+      await sampled.info('hot');
+      await sampled.withContext({ step: 2 }).info('hot');
+
+      expect((sampled as any).http.post).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact messages and tags when redact is set', async () => {
+      const redacting = new LogDotLogger({ apiKey: 'test', hostname: 'test', redact: { keys: ['ssn'] } });
+      await redacting.withContext({ ssn: '078-05-1120' }).info('Signup from bob@example.com', { password: 'hunter2' });
+
+      const payload = (redacting as any).http.post.mock.calls[0][1];
+      expect(payload.message).toBe('Signup from [REDACTED]');
+      expect(payload.tags).toEqual({ ssn: '[REDACTED]', password: '[REDACTED]' });
+    });
+
+    it('should redact the message_template tag', async () => {
+      const redacting = new LogDotLogger({ apiKey: 'test', hostname: 'test', redact: true });
+      await redacting.info('Login by alice@example.com as {user}', { user: 'bob' });
+      await redacting.infof('card 4111111111111111 user %s', 'bob');
+
+      const http = (redacting as any).http;
+      expect(http.post.mock.calls[0][1].message).toBe('Login by [REDACTED] as bob');
+      expect(http.post.mock.calls[0][1].tags.message_template).toBe('Login by [REDACTED] as {user}');
+      expect(http.post.mock.calls[1][1].tags.message_template).toBe('card [REDACTED] user %s');
+    });
+
+    it('should send tags verbatim by default', async () => {
+      await logger.info('Signup from bob@example.com', { password: 'hunter2' });
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.message).toBe('Signup from bob@example.com');
+      expect(payload.tags.password).toBe('hunter2');
+    });
+  });
+
+  describe('errors', () => {
+    it('should log an Error passed as the message under the err tag', async () => {
+      const error = Object.assign(new Error('disk full', { cause: new Error('ENOSPC') }), { code: 'E_DISK' });
+      await logger.error(error, { path: '/tmp' });
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.message).toBe('disk full');
+      expect(payload.tags.path).toBe('/tmp');
+      expect(payload.tags.err).toMatchObject({ name: 'Error', message: 'disk full', code: 'E_DISK', cause: { message: 'ENOSPC' } });
+    });
+
+    it('should serialize Error values in tags', async () => {
+      await logger.warn('retrying', { err: new RangeError('out of range') });
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(JSON.parse(JSON.stringify(payload.tags.err))).toMatchObject({ name: 'RangeError', message: 'out of range' });
+    });
+
+    it('should limit stack frames to maxStackFrames', async () => {
+      const shallow = new LogDotLogger({ apiKey: 'test', hostname: 'test', maxStackFrames: 0 });
+      await shallow.error(new Error('boom'));
+
+      const payload = (shallow as any).http.post.mock.calls[0][1];
+      expect(payload.tags.err.stack).not.toMatch(/^\s+at /m);
+    });
+  });
+
+  describe('timestamps', () => {
+    it('should timestamp each log at call time', async () => {
+      const before = Date.now();
+      await logger.info('now');
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/);
+      expect(Date.parse(payload.timestamp)).toBeGreaterThanOrEqual(before - 1);
+    });
+
+    it('should follow the wall clock when it is adjusted', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(new Date('2030-06-01T12:00:00.000Z'));
+        await logger.info('after NTP step');
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.timestamp).toMatch(/^2030-06-01T12:00:00\.000\d{3}Z$/);
+    });
+
+    it('should keep the call time for batched logs', async () => {
+      logger.beginBatch();
+      await logger.info('first', undefined, { timestamp: new Date('2024-01-15T09:30:00.000Z') });
+      await logger.sendBatch();
+
+      const payload = (logger as any).http.post.mock.calls[0][1];
+      expect(payload.logs[0].timestamp).toBe('2024-01-15T09:30:00.000000Z');
+    });
+
+    it('should reject invalid explicit timestamps', async () => {
+      await expect(logger.info('bad', undefined, { timestamp: new Date('nope') })).resolves.toBe(false);
+      expect((logger as any).http.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject timestamps outside the Date range', async () => {
+      const strict = new LogDotLogger({ apiKey: 'test', hostname: 'test', throwOnError: true });
+
+      await expect(logger.info('far', {}, { timestamp: 9e15 })).resolves.toBe(false);
+      await expect(strict.info('far', {}, { timestamp: -9e15 })).rejects.toBeInstanceOf(LogDotValidationError);
+      expect((logger as any).http.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logsUrl', () => {
+    afterEach(() => {
+      delete process.env.LOGDOT_LOGS_URL;
+    });
+
+    it('should default to the LogDot logs API', () => {
+      expect(logger.getLogsUrl()).toBe('https://logs.logdot.io/api/v1');
+    });
+
+    it('should use the configured logsUrl without trailing slash', () => {
+      const custom = new LogDotLogger({
+        apiKey: 'test',
+        hostname: 'test',
+        logsUrl: 'http://localhost:8080/api/v1/',
+      });
+      expect(custom.getLogsUrl()).toBe('http://localhost:8080/api/v1');
+    });
+
+    it('should read LOGDOT_LOGS_URL when no override is configured', () => {
+      process.env.LOGDOT_LOGS_URL = 'https://logs.staging.logdot.io/api/v1';
+      const custom = new LogDotLogger({ apiKey: 'test', hostname: 'test' });
+      expect(custom.getLogsUrl()).toBe('https://logs.staging.logdot.io/api/v1');
+    });
+
+    it('should prefer config over LOGDOT_LOGS_URL', () => {
+      process.env.LOGDOT_LOGS_URL = 'https://logs.staging.logdot.io/api/v1';
+      const custom = new LogDotLogger({
+        apiKey: 'test',
+        hostname: 'test',
+        logsUrl: 'http://localhost:8080',
+      });
+      expect(custom.getLogsUrl()).toBe('http://localhost:8080');
+    });
+
+    it('should send to the configured logsUrl', async () => {
+      const custom = new LogDotLogger({
+        apiKey: 'test',
+        hostname: 'test',
+        logsUrl: 'http://localhost:8080',
+      });
+      await custom.info('hello');
+
+      const http = (custom as any).http;
+      expect(http.post).toHaveBeenCalledWith('http://localhost:8080/logs', expect.any(Object), { spool: true });
+    });
+
+    it('should be inherited by withContext loggers', () => {
+      const custom = new LogDotLogger({
+        apiKey: 'test',
+        hostname: 'test',
+        logsUrl: 'http://localhost:8080',
+      });
+      expect(custom.withContext({ a: 1 }).getLogsUrl()).toBe('http://localhost:8080');
+    });
+  });
+
+  describe('transport', () => {
+    it('should pass the configured transport to its HTTP client', () => {
+      const transport = { send: vi.fn() };
+      new LogDotLogger({ apiKey: 'test', hostname: 'test', transport });
+
+      expect(HttpClient).toHaveBeenLastCalledWith(expect.objectContaining({ transport }));
+    });
+  });
+
+  describe('throwOnError', () => {
+    it('should resolve to false on failure by default', async () => {
+      (logger as any).http.post.mockResolvedValueOnce({ status: 401, data: {} });
+
+      await expect(logger.info('hello')).resolves.toBe(false);
+    });
+
+    it('should reject with a typed error for failed responses', async () => {
+      const strict = new LogDotLogger({ apiKey: 'test', hostname: 'test', throwOnError: true });
+      (strict as any).http.post.mockResolvedValueOnce({
+        status: 401,
+        data: { error: 'invalid key' },
+        attempts: 1,
+      });
+
+      const error = await strict.info('hello').catch((e) => e);
+      expect(error).toBeInstanceOf(LogDotAuthError);
+      expect(error).toMatchObject({ status: 401, responseBody: { error: 'invalid key' }, attempts: 1 });
+    });
+
+    it('should reject with a network error when the request throws', async () => {
+      const strict = new LogDotLogger({ apiKey: 'test', hostname: 'test', throwOnError: true });
+      strict.beginBatch();
+      await strict.info('queued');
+      (strict as any).http.post.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await expect(strict.sendBatch()).rejects.toBeInstanceOf(LogDotNetworkError);
+      expect(strict.getBatchSize()).toBe(1);
+    });
+  });
+
+  describe('batch splitting', () => {
+    it('should split large batches and keep only failed chunks queued', async () => {
+      const split = new LogDotLogger({ apiKey: 'test', hostname: 'test', batchMaxEntries: 2 });
+      const http = (split as any).http;
+      http.post
+        .mockResolvedValueOnce({ status: 200, data: {} })
+        .mockResolvedValueOnce({ status: 413, data: {} });
+
+      split.beginBatch();
+      for (const message of ['a', 'b', 'c', 'd']) {
+        await split.info(message);
+      }
+      const result = await split.sendBatchDetailed();
+
+      expect(http.post).toHaveBeenCalledTimes(2);
+      expect(http.post.mock.calls[1][1].logs.map((log: any) => log.message)).toEqual(['c', 'd']);
+      expect(result.success).toBe(false);
+      expect(result.chunks.map((chunk) => chunk.success)).toEqual([true, false]);
+      expect(split.getBatchSize()).toBe(2);
+    });
+  });
+
+  describe('spool', () => {
+    it('should ask the HTTP client to spool logs', async () => {
+      await logger.info('hello');
+
+      const http = (logger as any).http;
+      expect(http.post).toHaveBeenCalledWith(expect.any(String), expect.any(Object), { spool: true });
+    });
+
+    it('should treat a spooled batch as accepted', async () => {
+      logger.beginBatch();
+      await logger.info('queued');
+      (logger as any).http.post.mockResolvedValueOnce({ status: 0, data: null, spooled: true });
+
+      await expect(logger.sendBatch()).resolves.toBe(true);
+      expect(logger.getBatchSize()).toBe(0);
+    });
+  });
+
   describe('hostname', () => {
     it('should return the configured hostname', () => {
       expect(logger.getHostname()).toBe('test-service');
@@ -2,24 +2,76 @@
  * LogDot Logger - Handles log transmission to LogDot cloud
  */
 
-import { HttpClient, BASE_LOGS_URL } from './http';
-import type { LoggerConfig, LogLevel, LogEntry } from './types';
+import { type HttpClient, resolveLogsUrl, resolveMetricsUrl } from './http';
+import { createHttpClient } from './http-options';
+import { errorFromResponse, toLogDotError, LogDotValidationError, type LogDotError } from './errors';
+import { formatTimestamp, nowMs, MAX_EPOCH_MS } from './utils';
+import { resolveBatchLimits, sendChunks, splitBatch, jsonBytes, type BatchLimits } from './batch';
+import { SelfReporter, StatsCollector } from './stats';
+import { LogBuffer } from './log-buffer';
+import {
+  isLevelEnabled,
+  isLogLevel,
+  levelForNamespace,
+  resolveLevel,
+  resolveLevelRules,
+  toApiSeverity,
+  LEVEL_TAG,
+} from './levels';
+import { serializeErrorTags } from './error-serializer';
+import { getAmbientContext, runWithContext } from './async-context';
+import { createRedactor, type Redactor } from './redaction';
+import { createSampler, SAMPLE_RATE_TAG, type Sampler } from './sampling';
+import { createDeduplicator, type Deduplicator } from './dedup';
+import { printf, renderTemplate, splitPrintfTags, MESSAGE_TEMPLATE_TAG } from './message-format';
+import type {
+  LoggerConfig,
+  LogLevel,
+  LevelRules,
+  LogEntry,
+  HttpResponse,
+  BatchResult,
+  BatchChunkResult,
+  SdkStats,
+  RequestOptions,
+  LogOptions,
+} from './types';
 
 /** API endpoints */
 const ENDPOINT_SINGLE = '/logs';
 const ENDPOINT_BATCH = '/logs/batch';
 
+/** Tag an Error passed in place of the message is logged under */
+const ERROR_TAG = 'err';
+
+/** Tag carrying the name of child() loggers */
+const LOGGER_TAG = 'logger';
+
 /**
  * LogDot Logger class for sending logs to LogDot cloud
  */
 export class LogDotLogger {
   private http: HttpClient;
   private hostname: string;
+  private logsUrl: string;
   private debugEnabled: boolean;
   private batchMode: boolean = false;
   private batchQueue: LogEntry[] = [];
   private context: Record<string, unknown> = {};
   private config: LoggerConfig;
+  private batchLimits: BatchLimits;
+  private stats = new StatsCollector();
+  private selfReporter: SelfReporter | null = null;
+  private buffer: LogBuffer | null = null;
+  /** Minimum level, shared with loggers derived via withContext() */
+  private levelState: { minimum: LogLevel; rules: LevelRules };
+  /** Dotted name given by child(), e.g. "db.pool" */
+  private name?: string;
+  private redactor: Redactor | null;
+  /** Sampling state, shared with derived loggers so per-message limits apply family-wide */
+  private sampler: Sampler | null;
+  /** Dedup windows, shared with derived loggers */
+  private deduplicator: Deduplicator<LogEntry, LogDotLogger> | null;
 
   /**
    * Create a new LogDot Logger
@@ -40,19 +92,29 @@ export class LogDotLogger {
    */
   constructor(config: LoggerConfig, context: Record<string, unknown> = {}) {
     this.config = config;
-    this.http = new HttpClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout,
-      debug: config.debug,
-      retry: {
-        maxAttempts: config.retryAttempts,
-        baseDelayMs: config.retryDelayMs,
-        maxDelayMs: config.retryMaxDelayMs,
-      },
-    });
+    this.http = createHttpClient(config, this.stats);
     this.hostname = config.hostname;
+    this.logsUrl = resolveLogsUrl(config.logsUrl);
     this.debugEnabled = config.debug ?? false;
     this.context = context;
+    this.batchLimits = resolveBatchLimits(config);
+    this.levelState = { minimum: resolveLevel(config.level), rules: resolveLevelRules(config.levels) };
+    this.redactor = createRedactor(config.redact);
+    this.sampler = createSampler(config.sampling);
+    // Summaries go out through the logger that produced the first log, so its batch() mode applies
+    this.deduplicator = createDeduplicator<LogEntry, LogDotLogger>(config.dedup, (summary, source) =>
+      (source ?? this).sendRepeatSummary(summary)
+    );
+
+    if (config.selfReport) {
+      const metricsUrl = resolveMetricsUrl(config.selfReport.metricsUrl ?? config.metricsUrl);
+      this.selfReporter = new SelfReporter(this.http, metricsUrl, config.selfReport, 'logger', this.stats);
+      this.selfReporter.start();
+    }
+
+    if (config.autoBatch) {
+      this.buffer = new LogBuffer(config, entries => this.sendBuffered(entries), this.stats);
+    }
   }
 
   /**
@@ -69,8 +131,52 @@ export class LogDotLogger {
    * ```
    */
   withContext(context: Record<string, unknown>): LogDotLogger {
-    const mergedContext = { ...this.context, ...context };
-    return new LogDotLogger(this.config, mergedContext);
+    return this.derive({ ...this.context, ...context }, this.name);
+  }
+
+  /**
+   * Create a named child logger
+   *
+   * Names nest with dots: `logger.child('db').child('pool')` is named
+   * `db.pool`. Logs carry the name in a `logger` tag, and the `levels`
+   * config / LOGDOT_LEVELS rules matching the name set its minimum level.
+   *
+   * @example
+   * ```typescript
+   * const logger = new LogDotLogger({ ...config, levels: 'db.*=debug,*=warn' });
+   * const pool = logger.child('db.pool');
+   * await pool.debug('Connection acquired'); // sent, tagged logger: db.pool
+   * await logger.child('http').info('GET /'); // dropped by *=warn
+   * ```
+   */
+  child(name: string): LogDotLogger {
+    const fullName = this.name ? `${this.name}.${name}` : name;
+    return this.derive({ ...this.context, [LOGGER_TAG]: fullName }, fullName);
+  }
+
+  /**
+   * Create a logger sharing this one's parts: one HTTP client (and circuit
+   * breaker), one set of stats reported by one timer, one autoBatch buffer,
+   * one minimum level so setLevel() affects the whole family, and one
+   * sampler and deduplicator. Only the context, name and batch() state are
+   * its own. Skips the constructor, which would build and start parts
+   * only to throw them away.
+   */
+  private derive(context: Record<string, unknown>, name: string | undefined): LogDotLogger {
+    const derived: LogDotLogger = Object.create(LogDotLogger.prototype);
+    Object.assign(derived, this);
+    derived.context = context;
+    derived.name = name;
+    derived.batchMode = false;
+    derived.batchQueue = [];
+    return derived;
+  }
+
+  /**
+   * Get the child() name of this logger, if any
+   */
+  getName(): string | undefined {
+    return this.name;
   }
 
   /**
@@ -81,56 +187,296 @@ export class LogDotLogger {
   }
 
   /**
-   * Merge context with provided tags (tags take precedence)
+   * Run `fn` with ambient context tags
+   *
+   * Every log, console capture entry and bound metrics client send made
+   * inside `fn` — including after awaits, timers and callbacks — carries
+   * these tags, from any LogDotLogger. Nested calls add to the enclosing
+   * scope's tags.
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   logger.runWithContext({ request_id: req.id }, next);
+   * });
+   * ```
+   */
+  runWithContext<T>(context: Record<string, unknown>, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+
+  /**
+   * Merge ambient context, this logger's context and provided tags
+   * (later ones take precedence), then serialize errors and redact
    */
   private mergeTags(tags?: Record<string, unknown>): Record<string, unknown> | undefined {
-    if (Object.keys(this.context).length === 0 && !tags) {
+    const merged = { ...getAmbientContext(), ...this.context, ...tags };
+    if (Object.keys(merged).length === 0 && !tags) {
       return undefined;
     }
-    return { ...this.context, ...tags };
+    const serialized = serializeErrorTags(merged, { maxStackFrames: this.config.maxStackFrames });
+    return this.redactor ? this.redactor.redactTags(serialized) : serialized;
+  }
+
+  /**
+   * Send a trace level log (sent as debug)
+   */
+  async trace(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('trace', message, tags, options);
   }
 
   /**
    * Send a debug level log
    */
-  async debug(message: string, tags?: Record<string, unknown>): Promise<boolean> {
-    return this.log('debug', message, tags);
+  async debug(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('debug', message, tags, options);
   }
 
   /**
    * Send an info level log
    */
-  async info(message: string, tags?: Record<string, unknown>): Promise<boolean> {
-    return this.log('info', message, tags);
+  async info(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('info', message, tags, options);
+  }
+
+  /**
+   * Send a notice level log (sent as info)
+   */
+  async notice(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('notice', message, tags, options);
   }
 
   /**
    * Send a warning level log
    */
-  async warn(message: string, tags?: Record<string, unknown>): Promise<boolean> {
-    return this.log('warn', message, tags);
+  async warn(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('warn', message, tags, options);
   }
 
   /**
    * Send an error level log
    */
-  async error(message: string, tags?: Record<string, unknown>): Promise<boolean> {
-    return this.log('error', message, tags);
+  async error(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('error', message, tags, options);
+  }
+
+  /**
+   * Send a critical level log (sent as error)
+   */
+  async critical(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('critical', message, tags, options);
+  }
+
+  /**
+   * Send a fatal level log (sent as error)
+   */
+  async fatal(message: string | Error, tags?: Record<string, unknown>, options?: LogOptions): Promise<boolean> {
+    return this.log('fatal', message, tags, options);
+  }
+
+  /**
+   * Send a printf-style trace level log (sent as debug)
+   */
+  async tracef(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('trace', format, ...args);
+  }
+
+  /**
+   * Send a printf-style debug level log
+   */
+  async debugf(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('debug', format, ...args);
+  }
+
+  /**
+   * Send a printf-style info level log
+   */
+  async infof(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('info', format, ...args);
+  }
+
+  /**
+   * Send a printf-style notice level log (sent as info)
+   */
+  async noticef(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('notice', format, ...args);
+  }
+
+  /**
+   * Send a printf-style warning level log
+   */
+  async warnf(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('warn', format, ...args);
+  }
+
+  /**
+   * Send a printf-style error level log
+   */
+  async errorf(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('error', format, ...args);
+  }
+
+  /**
+   * Send a printf-style critical level log (sent as error)
+   */
+  async criticalf(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('critical', format, ...args);
+  }
+
+  /**
+   * Send a printf-style fatal level log (sent as error)
+   */
+  async fatalf(format: string, ...args: unknown[]): Promise<boolean> {
+    return this.logf('fatal', format, ...args);
   }
 
   /**
    * Send a log at the specified level
+   *
+   * Logs below the minimum level, logs dropped by `sampling` and repeats
+   * collapsed by `dedup` are discarded and resolve to true.
+   * An Error may be passed in place of the message: its message is sent
+   * and the error is serialized under the `err` tag. Error values in
+   * `tags` are serialized too (name, message, stack, code, custom fields,
+   * cause chain and AggregateError.errors).
+   * `{name}` placeholders in the message are filled from the tags, and
+   * the raw template is sent in a `message_template` tag (see logf() for
+   * printf-style messages).
+   * The entry is timestamped at call time unless `options.timestamp` is
+   * given. In batch and autoBatch mode the log is only queued: the
+   * promise resolves to true straight away and `signal`/`deadlineMs` are
+   * ignored.
+   *
+   * @param options - Explicit timestamp, AbortSignal and overall deadline
+   * @returns true on success; false on failure, unless `throwOnError` is
+   *   enabled, in which case the promise rejects with a LogDotError
+   */
+  async log(
+    level: LogLevel,
+    message: string | Error,
+    tags?: Record<string, unknown>,
+    options: LogOptions = {}
+  ): Promise<boolean> {
+    return this.write(level, message, tags, options);
+  }
+
+  /**
+   * Send a printf-style log at the specified level
+   *
+   * The message is formatted from `args` like util.format, and the raw
+   * format is sent in a `message_template` tag. A plain object after the
+   * arguments every specifier consumes is sent as the log's tags:
+   *
+   * @example
+   * ```typescript
+   * await logger.logf('info', 'Loaded %d items from %s', 3, 'cache', { job: 'import' });
+   * // message: 'Loaded 3 items from cache'
+   * // tags: { message_template: 'Loaded %d items from %s', job: 'import' }
+   * ```
+   *
+   * Otherwise behaves like log(); use log() for explicit timestamps,
+   * cancellation and deadlines.
+   */
+  async logf(level: LogLevel, format: string, ...args: unknown[]): Promise<boolean> {
+    const split = splitPrintfTags(format, args);
+    return this.write(level, format, split.tags, {}, split.args);
+  }
+
+  /**
+   * Build, filter and dispatch one log
+   *
+   * @param args - printf-style arguments for the message, from logf()
+   */
+  private async write(
+    level: LogLevel,
+    message: string | Error,
+    tags: Record<string, unknown> | undefined,
+    options: LogOptions,
+    args?: unknown[]
+  ): Promise<boolean> {
+    if (!this.isLevelEnabled(level)) {
+      return true;
+    }
+
+    const timestampMs = options.timestamp === undefined ? nowMs() : Number(options.timestamp);
+    if (!Number.isFinite(timestampMs) || Math.abs(timestampMs) > MAX_EPOCH_MS) {
+      const error = 'Invalid timestamp';
+      return this.fail(error, new LogDotValidationError(error));
+    }
+
+    // Keep the original level of logs sent under a coarser API severity
+    const levelTag = isLogLevel(level) && toApiSeverity(level) !== level ? { [LEVEL_TAG]: level } : undefined;
+    const errorTag = message instanceof Error ? { [ERROR_TAG]: message } : undefined;
+    let mergedTags = this.mergeTags(levelTag || errorTag ? { ...levelTag, ...errorTag, ...tags } : tags);
+
+    let text: string;
+    let template: string | undefined;
+    if (message instanceof Error) {
+      text = message.message || message.name;
+    } else if (args) {
+      text = printf(message, args);
+      template = message;
+    } else {
+      // Render from the merged (and redacted) tags, so context can fill placeholders too
+      const rendered = renderTemplate(message, mergedTags);
+      text = rendered ?? message;
+      template = rendered === undefined ? undefined : message;
+    }
+    if (this.redactor) {
+      text = this.redactor.redactString(text);
+      template = template === undefined ? undefined : this.redactor.redactString(template);
+    }
+    if (template !== undefined) {
+      mergedTags = { [MESSAGE_TEMPLATE_TAG]: template, ...mergedTags };
+    }
+    const entry: LogEntry = { message: text, level, tags: mergedTags, timestamp: formatTimestamp(timestampMs) };
+
+    if (this.deduplicator && !this.deduplicator.check(level, entry, this)) {
+      return true;
+    }
+
+    if (this.sampler) {
+      // Per-message limits group by template, not by rendered message
+      const rate = this.sampler.sample(level, template ?? text, mergedTags);
+      if (rate === 0) {
+        return true;
+      }
+      if (rate < 1) {
+        entry.tags = { ...mergedTags, [SAMPLE_RATE_TAG]: rate };
+      }
+    }
+
+    const { signal, deadlineMs } = options;
+    return this.dispatch(entry, { signal, deadlineMs });
+  }
+
+  /**
+   * Queue, buffer or send a finished entry, depending on the mode
    */
-  async log(level: LogLevel, message: string, tags?: Record<string, unknown>): Promise<boolean> {
-    const mergedTags = this.mergeTags(tags);
-    const entry: LogEntry = { message, level, tags: mergedTags };
+  private async dispatch(entry: LogEntry, options: RequestOptions = {}): Promise<boolean> {
+    this.stats.add('enqueued');
 
     if (this.batchMode) {
       this.batchQueue.push(entry);
+      this.stats.add('queueDepth');
       return true;
     }
 
-    return this.sendLog(entry);
+    if (this.buffer) {
+      this.buffer.push(entry);
+      return true;
+    }
+
+    return this.sendLog(entry, options);
+  }
+
+  /**
+   * Send the summary of a collapsed storm of identical logs
+   */
+  private sendRepeatSummary(summary: LogEntry): void {
+    this.dispatch(summary).catch(() => {
+      // Failures are counted and debug-logged by sendLog
+    });
   }
 
   /**
@@ -142,37 +488,83 @@ export class LogDotLogger {
   }
 
   /**
-   * Send all queued logs in a single batch request
+   * Send all queued logs, split into as many batch requests as the size
+   * limits require
+   *
+   * @param options - AbortSignal and overall deadline covering every request
+   * @returns true when every request succeeded
+   * @throws LogDotError on failure when `throwOnError` is enabled
+   */
+  async sendBatch(options: RequestOptions = {}): Promise<boolean> {
+    const result = await this.sendBatchDetailed(options);
+    if (result.success) {
+      return true;
+    }
+    return this.failBatch(result.chunks);
+  }
+
+  /**
+   * Send all queued logs and report the outcome of each request.
+   *
+   * The queue is split into chunks under `batchMaxBytes` and
+   * `batchMaxEntries`. Entries of accepted chunks are removed from the
+   * queue; entries of failed chunks stay queued for another attempt.
+   * Never throws, even in `throwOnError` mode.
    */
-  async sendBatch(): Promise<boolean> {
+  async sendBatchDetailed(options: RequestOptions = {}): Promise<BatchResult> {
     if (!this.batchMode || this.batchQueue.length === 0) {
-      return false;
+      return { success: false, chunks: [] };
     }
 
-    try {
-      const payload = {
-        hostname: this.hostname,
-        logs: this.batchQueue.map(entry => ({
-          message: entry.message,
-          severity: entry.level,
-          ...(entry.tags && Object.keys(entry.tags).length > 0 ? { tags: entry.tags } : {}),
-        })),
-      };
-
-      const url = `${BASE_LOGS_URL}${ENDPOINT_BATCH}`;
-      const response = await this.http.post(url, payload);
-
-      if (response.status === 200 || response.status === 201) {
-        this.clearBatch();
-        return true;
-      }
+    const queue = this.batchQueue;
+    const sent = queue.length;
+    const { chunks, results } = await this.postBatch(queue, options);
 
-      this.debugLog(`Failed to send batch. HTTP code: ${response.status}`);
-      return false;
-    } catch (error) {
-      this.debugLog(`Failed to send batch: ${(error as Error).message}`);
-      return false;
+    // Keep failed entries (plus anything queued meanwhile), unless the batch was reset
+    if (this.batchQueue === queue) {
+      const failed = chunks.filter((_, i) => !results[i].success).flat();
+      this.batchQueue = [...failed, ...queue.slice(sent)];
+      this.stats.add('queueDepth', this.batchQueue.length - queue.length);
     }
+
+    return { success: results.every(chunk => chunk.success), chunks: results };
+  }
+
+  /**
+   * Send every log buffered in autoBatch mode
+   *
+   * Logs that still fail after retries are dropped (or spooled, if a
+   * spool is configured) rather than re-buffered.
+   *
+   * @returns true when everything was delivered, or autoBatch is off
+   * @throws LogDotError on failure when `throwOnError` is enabled
+   */
+  async flush(): Promise<boolean> {
+    return this.buffer ? this.buffer.flush() : true;
+  }
+
+  /**
+   * Stop background work (the autoBatch timer and self-reports), send
+   * pending dedup summaries and flush the autoBatch buffer
+   *
+   * @returns The result of the final flush
+   */
+  async shutdown(): Promise<boolean> {
+    this.buffer?.stop();
+    this.selfReporter?.stop();
+    const summaries = this.deduplicator?.drain() ?? [];
+    const sent = await Promise.all(
+      summaries.map(({ summary, source }) => (source ?? this).dispatch(summary).catch(() => false))
+    );
+    const flushed = await this.flush();
+    return flushed && sent.every(Boolean);
+  }
+
+  /**
+   * Get the number of logs waiting in the autoBatch buffer
+   */
+  getBufferSize(): number {
+    return this.buffer?.size() ?? 0;
   }
 
   /**
@@ -187,6 +579,7 @@ export class LogDotLogger {
    * Clear the batch queue without sending
    */
   clearBatch(): void {
+    this.stats.add('queueDepth', -this.batchQueue.length);
     this.batchQueue = [];
   }
 
@@ -204,6 +597,67 @@ export class LogDotLogger {
     return this.hostname;
   }
 
+  /**
+   * Get the logs API base URL this logger sends to
+   */
+  getLogsUrl(): string {
+    return this.logsUrl;
+  }
+
+  /**
+   * Get the number of requests dropped by the client-side rate limit
+   */
+  getRateLimitDroppedCount(): number {
+    return this.http.getRateLimitDroppedCount();
+  }
+
+  /**
+   * Get delivery counters for this logger and every logger derived from
+   * it with withContext()
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
+  /**
+   * Send the stats to the self-report entity now
+   *
+   * @returns false when `selfReport` is not configured or the report failed
+   */
+  async reportStats(): Promise<boolean> {
+    return this.selfReporter?.report().catch(() => false) ?? false;
+  }
+
+  /**
+   * Set the minimum level for this logger and every logger sharing its
+   * family (the one it was derived from and those derived from it)
+   *
+   * @param namespace - Set the level of child() loggers matching this
+   *   pattern (`db.pool`, `db.*` or `*`) instead; namespace rules take
+   *   precedence over the family-wide level
+   */
+  setLevel(level: LogLevel, namespace?: string): void {
+    if (namespace === undefined) {
+      this.levelState.minimum = level;
+    } else {
+      this.levelState.rules[namespace] = level;
+    }
+  }
+
+  /**
+   * Get the minimum level in effect for this logger
+   */
+  getLevel(): LogLevel {
+    return levelForNamespace(this.name, this.levelState.rules, this.levelState.minimum);
+  }
+
+  /**
+   * Whether logs at `level` would be sent
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return isLevelEnabled(level, this.getLevel());
+  }
+
   /**
    * Enable or disable debug output
    */
@@ -212,33 +666,108 @@ export class LogDotLogger {
   }
 
   /**
-   * Send a single log entry
+   * Split entries into chunks under the batch limits and post each one
    */
-  private async sendLog(entry: LogEntry): Promise<boolean> {
-    try {
-      const payload: Record<string, unknown> = {
+  private async postBatch(
+    entries: LogEntry[],
+    options: RequestOptions
+  ): Promise<{ chunks: LogEntry[][]; results: BatchChunkResult[] }> {
+    const items = entries.map(entry => ({
+      entry,
+      log: {
         message: entry.message,
-        severity: entry.level,
-        hostname: this.hostname,
-      };
+        severity: toApiSeverity(entry.level),
+        ...(entry.timestamp ? { timestamp: entry.timestamp } : {}),
+        ...(entry.tags && Object.keys(entry.tags).length > 0 ? { tags: entry.tags } : {}),
+      },
+    }));
 
-      if (entry.tags && Object.keys(entry.tags).length > 0) {
-        payload.tags = entry.tags;
-      }
+    const limits = { ...this.batchLimits, overheadBytes: jsonBytes({ hostname: this.hostname, logs: [] }) };
+    const chunks = splitBatch(items, limits, item => jsonBytes(item.log));
+    const url = `${this.logsUrl}${ENDPOINT_BATCH}`;
+    const results = await sendChunks(
+      this.http,
+      url,
+      chunks,
+      chunk => ({ hostname: this.hostname, logs: chunk.map(item => item.log) }),
+      this.config.batchConcurrency,
+      options
+    );
+    this.stats.recordChunks(results);
 
-      const url = `${BASE_LOGS_URL}${ENDPOINT_SINGLE}`;
-      const response = await this.http.post(url, payload);
+    return { chunks: chunks.map(chunk => chunk.map(item => item.entry)), results };
+  }
 
-      if (response.status === 200 || response.status === 201) {
-        return true;
-      }
+  /**
+   * Deliver logs drained from the autoBatch buffer
+   */
+  private async sendBuffered(entries: LogEntry[]): Promise<boolean> {
+    const { results } = await this.postBatch(entries, {});
+    if (results.every(chunk => chunk.success)) {
+      return true;
+    }
+    return this.failBatch(results);
+  }
 
-      this.debugLog(`Failed to send log. HTTP code: ${response.status}`);
+  /**
+   * Report the first failed chunk of a batch
+   */
+  private failBatch(results: BatchChunkResult[]): false {
+    const failed = results.find(chunk => !chunk.success);
+    if (!failed) {
       return false;
+    }
+    const message = failed.status !== undefined
+      ? `Failed to send batch. HTTP code: ${failed.status}`
+      : `Failed to send batch: ${failed.error!.message}`;
+    return this.fail(message, failed.error!);
+  }
+
+  /**
+   * Send a single log entry
+   */
+  private async sendLog(entry: LogEntry, options: RequestOptions): Promise<boolean> {
+    const payload: Record<string, unknown> = {
+      message: entry.message,
+      severity: toApiSeverity(entry.level),
+      hostname: this.hostname,
+    };
+
+    if (entry.timestamp) {
+      payload.timestamp = entry.timestamp;
+    }
+
+    if (entry.tags && Object.keys(entry.tags).length > 0) {
+      payload.tags = entry.tags;
+    }
+
+    let response: HttpResponse;
+    try {
+      const url = `${this.logsUrl}${ENDPOINT_SINGLE}`;
+      response = await this.http.post(url, payload, { ...options, spool: true });
     } catch (error) {
-      this.debugLog(`Failed to send log: ${(error as Error).message}`);
-      return false;
+      this.stats.recordFailure(error);
+      return this.fail(`Failed to send log: ${(error as Error).message}`, toLogDotError(error));
+    }
+
+    if (response.status === 200 || response.status === 201 || response.spooled) {
+      this.stats.add(response.spooled ? 'spooled' : 'sent');
+      return true;
+    }
+
+    this.stats.add('failed');
+    return this.fail(`Failed to send log. HTTP code: ${response.status}`, errorFromResponse(response));
+  }
+
+  /**
+   * Report a failed send: throw in `throwOnError` mode, otherwise resolve to false
+   */
+  private fail(message: string, error: LogDotError): false {
+    this.debugLog(message);
+    if (this.config.throwOnError) {
+      throw error;
     }
+    return false;
   }
 
   /**
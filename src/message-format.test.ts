@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'node:util';
+import { formatPrintf, hasPrintfSpecifiers, printf, renderTemplate, splitPrintfTags } from './message-format';
+
+describe('renderTemplate', () => {
+  it('should fill placeholders from params', () => {
+    expect(renderTemplate('User {userId} logged in from {ip}', { userId: 42, ip: '10.0.0.1' }))
+      .toBe('User 42 logged in from 10.0.0.1');
+  });
+
+  it('should render objects as JSON and errors by message', () => {
+    expect(renderTemplate('{filter} failed: {err}', { filter: { a: 1 }, err: new Error('boom') }))
+      .toBe('{"a":1} failed: boom');
+  });
+
+  it('should leave unknown placeholders and return undefined when nothing was filled', () => {
+    expect(renderTemplate('{known} and {unknown}', { known: 1 })).toBe('1 and {unknown}');
+    expect(renderTemplate('Set {unknown}', {})).toBeUndefined();
+    expect(renderTemplate('{"json": true}', { json: 1 })).toBeUndefined();
+  });
+});
+
+describe('printf', () => {
+  it.each([
+    ['%s has %d items (%i%%)', ['cart', 3.7, 42.9]],
+    ['%j / %o / %O', [{ a: 1 }, [1], { b: 2 }]],
+    ['%c%s', ['color: red', 'styled']],
+    ['%s and %s', ['one']],
+    ['no specifiers', ['extra', 1]],
+  ])('should match util.format for %j', (template, args) => {
+    expect(printf(template, args)).toBe(format(template, ...args));
+  });
+});
+
+describe('formatPrintf', () => {
+  it('should consume one argument per specifier', () => {
+    expect(formatPrintf('%s=%d 100%%', ['a', 1, { rest: true }])).toEqual({ message: 'a=1 100%', rest: [{ rest: true }] });
+  });
+
+  it('should detect specifiers but not escaped percent signs', () => {
+    expect(hasPrintfSpecifiers('%d items')).toBe(true);
+    expect(hasPrintfSpecifiers('100%% done')).toBe(false);
+  });
+});
+
+describe('splitPrintfTags', () => {
+  it('should take a trailing plain object beyond the specifiers as tags', () => {
+    expect(splitPrintfTags('%d items', [3, { job: 'import' }])).toEqual({ args: [3], tags: { job: 'import' } });
+  });
+
+  it('should leave objects consumed by a specifier, and other values, as arguments', () => {
+    expect(splitPrintfTags('%d items: %j', [3, { a: 1 }])).toEqual({ args: [3, { a: 1 }] });
+    expect(splitPrintfTags('%d items', [3, [1, 2]])).toEqual({ args: [3, [1, 2]] });
+    expect(splitPrintfTags('%d items', [3, new Date(0)])).toEqual({ args: [3, new Date(0)] });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Message formatting - Templates and printf-style messages
+ *
+ * `User {userId} logged in` is rendered from the log's tags, and
+ * `Loaded %d items from %s` (logged with logf() and friends) from a list
+ * of arguments exactly as util.format would. Either way the raw template is kept in a
+ * `message_template` tag, so logs that differ only in their parameters
+ * can be grouped.
+ */
+
+import { format } from 'node:util';
+
+/** Tag carrying the raw template of a formatted message */
+export const MESSAGE_TEMPLATE_TAG = 'message_template';
+
+const PLACEHOLDER = /\{([A-Za-z_$][\w$.-]*)\}/g;
+const PRINTF_SPECIFIER = /%[sdifjoOc%]/g;
+
+/**
+ * Number of arguments the specifiers of a printf-style string consume
+ */
+function countSpecifiers(template: string): number {
+  return (template.match(PRINTF_SPECIFIER) ?? []).filter((specifier) => specifier !== '%%').length;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function renderValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.message;
+  if (value !== null && typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Render `{name}` placeholders from `params`. Placeholders without a
+ * matching parameter are left as they are.
+ *
+ * @returns the rendered message, or undefined if no placeholder was filled
+ */
+export function renderTemplate(template: string, params: Record<string, unknown> = {}): string | undefined {
+  let filled = false;
+  const rendered = template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      return placeholder;
+    }
+    filled = true;
+    return renderValue(params[name]);
+  });
+  return filled ? rendered : undefined;
+}
+
+/**
+ * Whether a string contains printf-style specifiers (%s, %d, %i, %f, %j,
+ * %o, %O, %c)
+ */
+export function hasPrintfSpecifiers(text: string): boolean {
+  return (text.match(PRINTF_SPECIFIER) ?? []).some((specifier) => specifier !== '%%');
+}
+
+/**
+ * Format a printf-style string with util.format (arguments beyond the
+ * specifiers are appended)
+ */
+export function printf(template: string, args: unknown[]): string {
+  return format(template, ...args);
+}
+
+/**
+ * Format a printf-style string the way util.format does, consuming one
+ * argument per specifier
+ *
+ * @returns the message and the arguments no specifier consumed
+ */
+export function formatPrintf(template: string, args: unknown[]): { message: string; rest: unknown[] } {
+  const consumed = countSpecifiers(template);
+  return {
+    message: format(template, ...args.slice(0, consumed)),
+    rest: args.slice(consumed),
+  };
+}
+
+/**
+ * Split the tags off printf-style arguments: a plain object left over
+ * after every specifier has its argument is the log's tags
+ * (`infof('Loaded %d items', 3, { job: 'import' })`)
+ */
+export function splitPrintfTags(template: string, args: unknown[]): { args: unknown[]; tags?: Record<string, unknown> } {
+  const last = args[args.length - 1];
+  if (args.length > countSpecifiers(template) && isPlainObject(last)) {
+    return { args: args.slice(0, -1), tags: last };
+  }
+  return { args };
+}
@@ -1,9 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LogDotMetrics, BoundMetricsClient } from './metrics';
+import { LogDotAuthError, LogDotRateLimitError, LogDotValidationError } from './errors';
 
 // Mock the HTTP client
-vi.mock('./http', () => ({
-  BASE_METRICS_URL: 'https://metrics.logdot.io/api/v1',
+vi.mock('./http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./http')>()),
   HttpClient: vi.fn().mockImplementation(() => ({
     post: vi.fn().mockResolvedValue({
       status: 200,
@@ -75,6 +76,32 @@ describe('LogDotMetrics', () => {
     });
   });
 
+  describe('metricsUrl', () => {
+    afterEach(() => {
+      delete process.env.LOGDOT_METRICS_URL;
+    });
+
+    it('should default to the LogDot metrics API', () => {
+      expect(metrics.getMetricsUrl()).toBe('https://metrics.logdot.io/api/v1');
+    });
+
+    it('should read LOGDOT_METRICS_URL when no override is configured', () => {
+      process.env.LOGDOT_METRICS_URL = 'https://metrics.staging.logdot.io/api/v1/';
+      const custom = new LogDotMetrics({ apiKey: 'test' });
+      expect(custom.getMetricsUrl()).toBe('https://metrics.staging.logdot.io/api/v1');
+    });
+
+    it('should use the configured metricsUrl for entities and bound clients', async () => {
+      const custom = new LogDotMetrics({ apiKey: 'test', metricsUrl: 'http://localhost:9090' });
+      await custom.getEntityByName('svc');
+      await custom.forEntity('entity-uuid-123').send('cpu', 1, 'percent');
+
+      const http = (custom as any).http;
+      expect(http.get).toHaveBeenCalledWith('http://localhost:9090/entities/by-name/svc', {});
+      expect(http.post).toHaveBeenCalledWith('http://localhost:9090/metrics', expect.any(Object), { spool: true });
+    });
+  });
+
   describe('forEntity', () => {
     it('should return a BoundMetricsClient', () => {
       const client = metrics.forEntity('entity-uuid-123');
@@ -198,6 +225,33 @@ describe('BoundMetricsClient', () => {
     });
   });
 
+  describe('throwOnError', () => {
+    it('should reject with a typed error for failed responses', async () => {
+      const strict = new LogDotMetrics({ apiKey: 'test', throwOnError: true }).forEntity('e1');
+      (strict as any).http.post.mockResolvedValueOnce({ status: 429, data: {}, headers: { 'retry-after': '2' } });
+
+      const error = await strict.send('cpu', 50, 'percent').catch((e) => e);
+      expect(error).toBeInstanceOf(LogDotRateLimitError);
+      expect(error.retryAfterMs).toBe(2000);
+    });
+
+    it('should throw a validation error for batch mode misuse', () => {
+      const strict = new LogDotMetrics({ apiKey: 'test', throwOnError: true }).forEntity('e1');
+      expect(() => strict.add(1)).toThrow(LogDotValidationError);
+    });
+
+    it('should return null for a missing entity but throw other failures', async () => {
+      const strict = new LogDotMetrics({ apiKey: 'test', throwOnError: true });
+      const http = (strict as any).http;
+
+      http.get.mockResolvedValueOnce({ status: 404, data: {} });
+      await expect(strict.getEntityByName('missing')).resolves.toBeNull();
+
+      http.get.mockResolvedValueOnce({ status: 403, data: {} });
+      await expect(strict.getEntityByName('forbidden')).rejects.toBeInstanceOf(LogDotAuthError);
+    });
+  });
+
   describe('error tracking', () => {
     it('should track last error', () => {
       client.add(23.5); // Should fail - not in batch mode
@@ -21,14 +21,29 @@
  * ```
  */
 
-import { HttpClient, BASE_METRICS_URL } from './http';
+import { type HttpClient, BASE_METRICS_URL, resolveMetricsUrl } from './http';
+import { createHttpClient } from './http-options';
+import {
+  errorFromResponse,
+  toLogDotError,
+  LogDotValidationError,
+  type LogDotError,
+} from './errors';
+import { resolveBatchLimits, sendChunks, splitBatch, jsonBytes, type BatchLimits } from './batch';
+import { SelfReporter, StatsCollector } from './stats';
+import { withCancellation } from './cancellation';
+import { withAmbientContext } from './async-context';
 import type {
+  BatchResult,
+  SdkStats,
+  HttpResponse,
   MetricsConfig,
   MetricEntry,
   EntityMetadata,
   EntityResponse,
   Entity,
   CreateEntityOptions,
+  RequestOptions,
 } from './types';
 
 /** API endpoints */
@@ -47,13 +62,24 @@ function formatTags(tags?: Record<string, unknown>): string[] | undefined {
   return Object.entries(tags).map(([key, value]) => `${key}:${value}`);
 }
 
+/** Settings a BoundMetricsClient inherits from its LogDotMetrics */
+type BoundMetricsOptions = Pick<MetricsConfig, 'throwOnError' | 'batchMaxBytes' | 'batchMaxEntries' | 'batchConcurrency'> & {
+  /** Stats shared with the parent client */
+  stats?: StatsCollector;
+};
+
 /**
  * Bound metrics client for sending metrics to a specific entity
  */
 export class BoundMetricsClient {
   private http: HttpClient;
   private entityId: string;
+  private metricsUrl: string;
   private debugEnabled: boolean;
+  private throwOnError: boolean;
+  private batchLimits: BatchLimits;
+  private batchConcurrency?: number;
+  private stats: StatsCollector;
 
   private batchMode: boolean = false;
   private multiBatchMode: boolean = false;
@@ -64,10 +90,21 @@ export class BoundMetricsClient {
   private lastHttpCode: number = -1;
 
   /** @internal */
-  constructor(http: HttpClient, entityId: string, debug: boolean = false) {
+  constructor(
+    http: HttpClient,
+    entityId: string,
+    debug: boolean = false,
+    metricsUrl: string = BASE_METRICS_URL,
+    options: BoundMetricsOptions = {}
+  ) {
     this.http = http;
     this.entityId = entityId;
     this.debugEnabled = debug;
+    this.metricsUrl = metricsUrl;
+    this.throwOnError = options.throwOnError ?? false;
+    this.batchLimits = resolveBatchLimits(options);
+    this.batchConcurrency = options.batchConcurrency;
+    this.stats = options.stats ?? new StatsCollector();
   }
 
   /**
@@ -79,47 +116,55 @@ export class BoundMetricsClient {
 
   /**
    * Send a single metric
+   *
+   * Tags from an enclosing runWithContext() scope are added to `tags`.
+   *
+   * @param options - AbortSignal and overall deadline for the send
+   * @throws LogDotError on failure when `throwOnError` is enabled
    */
   async send(
     name: string,
     value: number,
     unit: string,
-    tags?: Record<string, unknown>
+    tags?: Record<string, unknown>,
+    options: RequestOptions = {}
   ): Promise<boolean> {
     if (this.batchMode) {
-      this.lastError = 'Cannot use send() in batch mode. Use add() or addMetric() instead.';
-      return false;
+      return this.usageError('Cannot use send() in batch mode. Use add() or addMetric() instead.');
     }
+    this.stats.add('enqueued');
 
-    try {
-      const payload: Record<string, unknown> = {
-        entity_id: this.entityId,
-        name,
-        value,
-        unit,
-      };
+    const payload: Record<string, unknown> = {
+      entity_id: this.entityId,
+      name,
+      value,
+      unit,
+    };
 
-      const formattedTags = formatTags(tags);
-      if (formattedTags) {
-        payload.tags = formattedTags;
-      }
+    const formattedTags = formatTags(withAmbientContext(tags));
+    if (formattedTags) {
+      payload.tags = formattedTags;
+    }
 
-      const url = `${BASE_METRICS_URL}${ENDPOINT_SINGLE}`;
-      const response = await this.http.post(url, payload);
+    let response: HttpResponse;
+    try {
+      const url = `${this.metricsUrl}${ENDPOINT_SINGLE}`;
+      response = await this.http.post(url, payload, { ...options, spool: true });
+    } catch (error) {
+      this.stats.recordFailure(error);
+      return this.fail((error as Error).message, toLogDotError(error));
+    }
 
-      this.lastHttpCode = response.status;
+    this.lastHttpCode = response.status;
 
-      if (response.status === 200 || response.status === 201) {
-        this.lastError = '';
-        return true;
-      }
-
-      this.lastError = `HTTP ${response.status}`;
-      return false;
-    } catch (error) {
-      this.lastError = (error as Error).message;
-      return false;
+    if (response.status === 200 || response.status === 201 || response.spooled) {
+      this.lastError = '';
+      this.stats.add(response.spooled ? 'spooled' : 'sent');
+      return true;
     }
+
+    this.stats.add('failed');
+    return this.fail(`HTTP ${response.status}`, errorFromResponse(response));
   }
 
   /**
@@ -139,16 +184,17 @@ export class BoundMetricsClient {
    */
   add(value: number, tags?: Record<string, unknown>): boolean {
     if (!this.batchMode || this.multiBatchMode) {
-      this.lastError = 'Not in single-metric batch mode. Call beginBatch() first.';
-      return false;
+      return this.usageError('Not in single-metric batch mode. Call beginBatch() first.');
     }
 
     this.batchQueue.push({
       name: this.batchMetricName,
       value,
       unit: this.batchUnit,
-      tags,
+      tags: withAmbientContext(tags),
     });
+    this.stats.add('enqueued');
+    this.stats.add('queueDepth');
 
     return true;
   }
@@ -173,65 +219,102 @@ export class BoundMetricsClient {
     tags?: Record<string, unknown>
   ): boolean {
     if (!this.multiBatchMode) {
-      this.lastError = 'Not in multi-metric batch mode. Call beginMultiBatch() first.';
-      return false;
+      return this.usageError('Not in multi-metric batch mode. Call beginMultiBatch() first.');
     }
 
-    this.batchQueue.push({ name, value, unit, tags });
+    this.batchQueue.push({ name, value, unit, tags: withAmbientContext(tags) });
+    this.stats.add('enqueued');
+    this.stats.add('queueDepth');
     return true;
   }
 
   /**
-   * Send all queued metrics in a single batch request
+   * Send all queued metrics, split into as many batch requests as the
+   * size limits require
+   *
+   * @param options - AbortSignal and overall deadline covering every request
+   * @returns true when every request succeeded
+   * @throws LogDotError on failure when `throwOnError` is enabled
    */
-  async sendBatch(): Promise<boolean> {
-    if (!this.batchMode || this.batchQueue.length === 0) {
+  async sendBatch(options: RequestOptions = {}): Promise<boolean> {
+    const result = await this.sendBatchDetailed(options);
+    if (result.success) {
+      this.lastError = '';
+      return true;
+    }
+
+    const failed = result.chunks.find(chunk => !chunk.success);
+    if (!failed) {
       return false;
     }
+    const message = failed.status !== undefined ? `HTTP ${failed.status}` : failed.error!.message;
+    return this.fail(message, failed.error!);
+  }
 
-    try {
-      const formattedMetrics = this.batchQueue.map(entry => {
-        const metric: Record<string, unknown> = {
-          value: entry.value,
-          unit: entry.unit,
-        };
-        if (this.multiBatchMode) {
-          metric.name = entry.name;
-        }
-        const formattedTags = formatTags(entry.tags);
-        if (formattedTags) {
-          metric.tags = formattedTags;
-        }
-        return metric;
-      });
-
-      const payload: Record<string, unknown> = {
-        entity_id: this.entityId,
-        metrics: formattedMetrics,
-      };
+  /**
+   * Send all queued metrics and report the outcome of each request.
+   *
+   * The queue is split into chunks under `batchMaxBytes` and
+   * `batchMaxEntries`. Metrics of accepted chunks are removed from the
+   * queue; metrics of failed chunks stay queued for another attempt.
+   * Never throws, even in `throwOnError` mode.
+   */
+  async sendBatchDetailed(options: RequestOptions = {}): Promise<BatchResult> {
+    if (!this.batchMode || this.batchQueue.length === 0) {
+      return { success: false, chunks: [] };
+    }
 
-      // For single-metric batch, include the metric name at top level
-      if (!this.multiBatchMode) {
-        payload.name = this.batchMetricName;
+    const queue = this.batchQueue;
+    const items = queue.map(entry => {
+      const metric: Record<string, unknown> = {
+        value: entry.value,
+        unit: entry.unit,
+      };
+      if (this.multiBatchMode) {
+        metric.name = entry.name;
+      }
+      const formattedTags = formatTags(entry.tags);
+      if (formattedTags) {
+        metric.tags = formattedTags;
       }
+      return { entry, metric };
+    });
 
-      const url = `${BASE_METRICS_URL}${ENDPOINT_BATCH}`;
-      const response = await this.http.post(url, payload);
+    const envelope: Record<string, unknown> = {
+      entity_id: this.entityId,
+    };
 
-      this.lastHttpCode = response.status;
+    // For single-metric batch, include the metric name at top level
+    if (!this.multiBatchMode) {
+      envelope.name = this.batchMetricName;
+    }
 
-      if (response.status === 200 || response.status === 201) {
-        this.lastError = '';
-        this.clearBatch();
-        return true;
-      }
+    const limits = { ...this.batchLimits, overheadBytes: jsonBytes({ ...envelope, metrics: [] }) };
+    const chunks = splitBatch(items, limits, item => jsonBytes(item.metric));
+    const url = `${this.metricsUrl}${ENDPOINT_BATCH}`;
+    const results = await sendChunks(
+      this.http,
+      url,
+      chunks,
+      chunk => ({ ...envelope, metrics: chunk.map(item => item.metric) }),
+      this.batchConcurrency,
+      options
+    );
+    this.stats.recordChunks(results);
+
+    const last = results[results.length - 1];
+    if (last?.status !== undefined) {
+      this.lastHttpCode = last.status;
+    }
 
-      this.lastError = `HTTP ${response.status}`;
-      return false;
-    } catch (error) {
-      this.lastError = (error as Error).message;
-      return false;
+    // Keep failed metrics (plus anything queued meanwhile), unless the batch was reset
+    if (this.batchQueue === queue) {
+      const failed = chunks.filter((_, i) => !results[i].success).flat().map(item => item.entry);
+      this.batchQueue = [...failed, ...queue.slice(items.length)];
+      this.stats.add('queueDepth', this.batchQueue.length - queue.length);
     }
+
+    return { success: results.every(chunk => chunk.success), chunks: results };
   }
 
   /**
@@ -247,6 +330,7 @@ export class BoundMetricsClient {
    * Clear the batch queue without sending
    */
   clearBatch(): void {
+    this.stats.add('queueDepth', -this.batchQueue.length);
     this.batchQueue = [];
   }
 
@@ -271,12 +355,38 @@ export class BoundMetricsClient {
     return this.lastHttpCode;
   }
 
+  /**
+   * Get delivery counters, shared with the LogDotMetrics client (and its
+   * other bound clients) this client came from
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
   /**
    * Enable or disable debug output
    */
   setDebug(enabled: boolean): void {
     this.debugEnabled = enabled;
   }
+
+  /**
+   * Report a failed send: throw in `throwOnError` mode, otherwise resolve to false
+   */
+  private fail(message: string, error: LogDotError): false {
+    this.lastError = message;
+    if (this.throwOnError) {
+      throw error;
+    }
+    return false;
+  }
+
+  /**
+   * Report a method called in the wrong batch mode
+   */
+  private usageError(message: string): false {
+    return this.fail(message, new LogDotValidationError(message));
+  }
 }
 
 /**
@@ -306,7 +416,12 @@ export class BoundMetricsClient {
  */
 export class LogDotMetrics {
   private http: HttpClient;
+  private metricsUrl: string;
   private debugEnabled: boolean;
+  private throwOnError: boolean;
+  private boundOptions: BoundMetricsOptions;
+  private stats = new StatsCollector();
+  private selfReporter: SelfReporter | null = null;
   private lastError: string = '';
   private lastHttpCode: number = -1;
 
@@ -316,24 +431,32 @@ export class LogDotMetrics {
    * @param config - Metrics configuration (apiKey required)
    */
   constructor(config: MetricsConfig) {
-    this.http = new HttpClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout,
-      debug: config.debug,
-      retry: {
-        maxAttempts: config.retryAttempts,
-        baseDelayMs: config.retryDelayMs,
-        maxDelayMs: config.retryMaxDelayMs,
-      },
-    });
+    this.http = createHttpClient(config, this.stats);
+    this.metricsUrl = resolveMetricsUrl(config.metricsUrl);
     this.debugEnabled = config.debug ?? false;
+    this.throwOnError = config.throwOnError ?? false;
+    this.boundOptions = {
+      throwOnError: config.throwOnError,
+      batchMaxBytes: config.batchMaxBytes,
+      batchMaxEntries: config.batchMaxEntries,
+      batchConcurrency: config.batchConcurrency,
+      stats: this.stats,
+    };
+
+    if (config.selfReport) {
+      const metricsUrl = config.selfReport.metricsUrl ? resolveMetricsUrl(config.selfReport.metricsUrl) : this.metricsUrl;
+      this.selfReporter = new SelfReporter(this.http, metricsUrl, config.selfReport, 'metrics', this.stats);
+      this.selfReporter.start();
+    }
   }
 
   /**
    * Create a new entity
    *
    * @param options - Entity creation options (name, description, metadata)
+   * @param requestOptions - AbortSignal and overall deadline for the request
    * @returns The created entity, or null if creation failed
+   * @throws LogDotError on failure when `throwOnError` is enabled
    *
    * @example
    * ```typescript
@@ -344,48 +467,49 @@ export class LogDotMetrics {
    * });
    * ```
    */
-  async createEntity(options: CreateEntityOptions): Promise<Entity | null> {
-    try {
-      const payload: Record<string, unknown> = {
-        name: options.name,
-      };
+  async createEntity(options: CreateEntityOptions, requestOptions: RequestOptions = {}): Promise<Entity | null> {
+    const payload: Record<string, unknown> = {
+      name: options.name,
+    };
 
-      if (options.description) {
-        payload.description = options.description;
-      }
-
-      if (options.metadata && Object.keys(options.metadata).length > 0) {
-        payload.metadata = options.metadata;
-      }
+    if (options.description) {
+      payload.description = options.description;
+    }
 
-      const url = `${BASE_METRICS_URL}${ENDPOINT_ENTITIES}`;
-      const response = await this.http.post<EntityResponse>(url, payload);
+    if (options.metadata && Object.keys(options.metadata).length > 0) {
+      payload.metadata = options.metadata;
+    }
 
-      this.lastHttpCode = response.status;
+    let response: HttpResponse<EntityResponse>;
+    try {
+      const url = `${this.metricsUrl}${ENDPOINT_ENTITIES}`;
+      response = await this.http.post<EntityResponse>(url, payload, requestOptions);
+    } catch (error) {
+      return this.fail((error as Error).message, toLogDotError(error));
+    }
 
-      if ((response.status === 200 || response.status === 201) && response.data?.data?.id) {
-        this.lastError = '';
-        this.debugLog(`Entity created: ${response.data.data.id}`);
-        return {
-          id: response.data.data.id,
-          name: options.name,
-          description: options.description,
-        };
-      }
+    this.lastHttpCode = response.status;
 
-      this.lastError = `Failed to create entity. HTTP ${response.status}`;
-      return null;
-    } catch (error) {
-      this.lastError = (error as Error).message;
-      return null;
+    if ((response.status === 200 || response.status === 201) && response.data?.data?.id) {
+      this.lastError = '';
+      this.debugLog(`Entity created: ${response.data.data.id}`);
+      return {
+        id: response.data.data.id,
+        name: options.name,
+        description: options.description,
+      };
     }
+
+    return this.fail(`Failed to create entity. HTTP ${response.status}`, errorFromResponse(response));
   }
 
   /**
    * Get an entity by name
    *
    * @param name - Entity name to look up
+   * @param options - AbortSignal and overall deadline for the request
    * @returns The entity if found, or null if not found
+   * @throws LogDotError on failures other than "not found" when `throwOnError` is enabled
    *
    * @example
    * ```typescript
@@ -396,36 +520,42 @@ export class LogDotMetrics {
    * }
    * ```
    */
-  async getEntityByName(name: string): Promise<Entity | null> {
+  async getEntityByName(name: string, options: RequestOptions = {}): Promise<Entity | null> {
+    let response: HttpResponse<EntityResponse>;
     try {
-      const url = `${BASE_METRICS_URL}${ENDPOINT_ENTITIES_BY_NAME}/${encodeURIComponent(name)}`;
-      const response = await this.http.get<EntityResponse>(url);
-
-      this.lastHttpCode = response.status;
-
-      if (response.status === 200 && response.data?.data?.id) {
-        this.lastError = '';
-        this.debugLog(`Entity found: ${response.data.data.id}`);
-        return {
-          id: response.data.data.id,
-          name: response.data.data.name || name,
-          description: response.data.data.description,
-        };
-      }
-
-      this.lastError = `Entity not found. HTTP ${response.status}`;
-      return null;
+      const url = `${this.metricsUrl}${ENDPOINT_ENTITIES_BY_NAME}/${encodeURIComponent(name)}`;
+      response = await this.http.get<EntityResponse>(url, options);
     } catch (error) {
-      this.lastError = (error as Error).message;
+      return this.fail((error as Error).message, toLogDotError(error));
+    }
+
+    this.lastHttpCode = response.status;
+
+    if (response.status === 200 && response.data?.data?.id) {
+      this.lastError = '';
+      this.debugLog(`Entity found: ${response.data.data.id}`);
+      return {
+        id: response.data.data.id,
+        name: response.data.data.name || name,
+        description: response.data.data.description,
+      };
+    }
+
+    this.lastError = `Entity not found. HTTP ${response.status}`;
+    // A missing entity is an expected answer, not an error
+    if (response.status === 404 || response.status === 200) {
       return null;
     }
+    return this.fail(this.lastError, errorFromResponse(response));
   }
 
   /**
    * Get or create an entity by name
    *
    * @param options - Entity options (will create if not found)
+   * @param requestOptions - AbortSignal and overall deadline covering the lookup and creation
    * @returns The entity (existing or newly created), or null on error
+   * @throws LogDotError on failure when `throwOnError` is enabled
    *
    * @example
    * ```typescript
@@ -435,15 +565,17 @@ export class LogDotMetrics {
    * });
    * ```
    */
-  async getOrCreateEntity(options: CreateEntityOptions): Promise<Entity | null> {
-    // Try to find existing entity first
-    const existing = await this.getEntityByName(options.name);
-    if (existing) {
-      return existing;
-    }
+  async getOrCreateEntity(options: CreateEntityOptions, requestOptions: RequestOptions = {}): Promise<Entity | null> {
+    return withCancellation(requestOptions, async (signal) => {
+      // Try to find existing entity first
+      const existing = await this.getEntityByName(options.name, { signal });
+      if (existing) {
+        return existing;
+      }
 
-    // Create new entity
-    return this.createEntity(options);
+      // Create new entity
+      return this.createEntity(options, { signal });
+    });
   }
 
   /**
@@ -462,7 +594,37 @@ export class LogDotMetrics {
    * ```
    */
   forEntity(entityId: string): BoundMetricsClient {
-    return new BoundMetricsClient(this.http, entityId, this.debugEnabled);
+    return new BoundMetricsClient(this.http, entityId, this.debugEnabled, this.metricsUrl, this.boundOptions);
+  }
+
+  /**
+   * Get the metrics API base URL this client sends to
+   */
+  getMetricsUrl(): string {
+    return this.metricsUrl;
+  }
+
+  /**
+   * Get the number of requests dropped by the client-side rate limit
+   */
+  getRateLimitDroppedCount(): number {
+    return this.http.getRateLimitDroppedCount();
+  }
+
+  /**
+   * Get delivery counters for this client and every bound client it created
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot();
+  }
+
+  /**
+   * Send the stats to the self-report entity now
+   *
+   * @returns false when `selfReport` is not configured or the report failed
+   */
+  async reportStats(): Promise<boolean> {
+    return this.selfReporter?.report().catch(() => false) ?? false;
   }
 
   /**
@@ -486,6 +648,17 @@ export class LogDotMetrics {
     this.debugEnabled = enabled;
   }
 
+  /**
+   * Report a failed request: throw in `throwOnError` mode, otherwise resolve to null
+   */
+  private fail(message: string, error: LogDotError): null {
+    this.lastError = message;
+    if (this.throwOnError) {
+      throw error;
+    }
+    return null;
+  }
+
   /**
    * Log debug message to console
    */
@@ -24,21 +24,37 @@ import { metrics } from '@opentelemetry/api';
 import { LogDotSpanExporter } from './exporters/span-exporter.js';
 import { LogDotMetricExporter } from './exporters/metric-exporter.js';
 import { ConsoleCapture } from './console-capture.js';
+import { pickComponentOptions } from './http-options.js';
+import type {
+  ComponentOptions,
+  LogLevel,
+  RedactionConfig,
+  SamplingConfig,
+  DedupConfig,
+} from './types.js';
 
 /** Configuration for Next.js auto-instrumentation */
-export interface NextjsInitConfig {
-  /** API key for authentication (format: ilog_live_XXXXX) */
-  apiKey: string;
+export interface NextjsInitConfig extends ComponentOptions {
   /** Hostname identifier for logs */
   hostname: string;
   /** Metrics entity name (defaults to hostname) */
   entityName?: string;
-  /** Enable debug output to console (default: false) */
-  debug?: boolean;
-  /** HTTP timeout in milliseconds (default: 5000) */
-  timeout?: number;
+  /** Logs API base URL (default: LOGDOT_LOGS_URL env var, then https://logs.logdot.io/api/v1) */
+  logsUrl?: string;
+  /** Metrics API base URL (default: LOGDOT_METRICS_URL env var, then https://metrics.logdot.io/api/v1) */
+  metricsUrl?: string;
   /** Capture console.log/warn/error/debug and send to LogDot (default: false) */
   captureConsole?: boolean;
+  /** Minimum console level to capture; LOGDOT_LEVEL overrides it (default: 'debug') */
+  level?: LogLevel;
+  /** Keep at most this many stack frames per captured error (default: 20) */
+  maxStackFrames?: number;
+  /** Redact secrets and PII from spans and captured console output; `true` applies every preset (default: disabled) */
+  redact?: RedactionConfig | boolean;
+  /** Keep only a fraction of captured console output (default: keep everything) */
+  sampling?: SamplingConfig;
+  /** Collapse identical console output into one entry with a `repeat_count` tag (default: disabled) */
+  dedup?: DedupConfig | boolean;
 }
 
 let sdkInstance: NodeSDK | null = null;
@@ -76,18 +92,22 @@ export function init(config: NextjsInitConfig): void {
     process.env.OTEL_SEMCONV_STABILITY_OPT_IN = `${currentOptIn},http`;
   }
 
+  // Report on the metrics URL the app is configured with
+  const selfReport = config.selfReport && { metricsUrl: config.metricsUrl, ...config.selfReport };
+
   const spanExporter = new LogDotSpanExporter({
-    apiKey: config.apiKey,
+    ...pickComponentOptions(config),
     hostname: config.hostname,
-    debug: config.debug,
-    timeout: config.timeout,
+    logsUrl: config.logsUrl,
+    selfReport,
+    redact: config.redact,
   });
 
   const metricExporter = new LogDotMetricExporter({
-    apiKey: config.apiKey,
+    ...pickComponentOptions(config),
     entityName: config.entityName ?? config.hostname,
-    debug: config.debug,
-    timeout: config.timeout,
+    metricsUrl: config.metricsUrl,
+    selfReport,
   });
 
   // Register the MeterProvider globally BEFORE NodeSDK.start(). The NodeSDK
@@ -132,9 +152,15 @@ export function init(config: NextjsInitConfig): void {
 
   if (config.captureConsole) {
     consoleCaptureInstance = new ConsoleCapture({
-      apiKey: config.apiKey,
+      ...pickComponentOptions(config),
       hostname: config.hostname,
-      timeout: config.timeout,
+      level: config.level,
+      maxStackFrames: config.maxStackFrames,
+      redact: config.redact,
+      sampling: config.sampling,
+      dedup: config.dedup,
+      logsUrl: config.logsUrl,
+      selfReport,
     });
   }
 
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { NodeHttpTransport, getSharedNodeTransport, shouldBypassProxy } from './node-transport';
+import { HttpClient } from './http';
+import { FetchTransport } from './transport';
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+describe('NodeHttpTransport', () => {
+  let target: http.Server;
+  let targetUrl: string;
+  let targetConnections = 0;
+
+  let proxy: http.Server;
+  let proxyUrl: string;
+  const proxied: Array<{ method?: string; url?: string; auth?: string }> = [];
+
+  let transport: NodeHttpTransport;
+
+  beforeAll(async () => {
+    target = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('X-Echo-Method', req.method ?? '');
+        res.end(JSON.stringify({ path: req.url, body }));
+      });
+    });
+    target.on('connection', () => { targetConnections++; });
+    targetUrl = await listen(target);
+
+    proxy = http.createServer((req, res) => {
+      proxied.push({ method: req.method, url: req.url, auth: req.headers['proxy-authorization'] });
+      res.end(JSON.stringify({ via: 'proxy' }));
+    });
+    proxy.on('connect', (req, socket) => {
+      proxied.push({ method: req.method, url: req.url, auth: req.headers['proxy-authorization'] });
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    });
+    proxyUrl = await listen(proxy);
+  });
+
+  afterAll(async () => {
+    await new Promise((r) => target.close(r));
+    await new Promise((r) => proxy.close(r));
+  });
+
+  afterEach(() => {
+    transport?.destroy();
+    proxied.length = 0;
+    delete process.env.HTTP_PROXY;
+    delete process.env.HTTPS_PROXY;
+    delete process.env.NO_PROXY;
+  });
+
+  it('should send requests and return status, body and headers', async () => {
+    transport = new NodeHttpTransport({ proxy: false });
+
+    const response = await transport.send({
+      method: 'POST',
+      url: `${targetUrl}/logs?x=1`,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"a":1}',
+    });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ path: '/logs?x=1', body: '{"a":1}' });
+    expect(response.headers['x-echo-method']).toBe('POST');
+  });
+
+  it('should reuse connections with keep-alive', async () => {
+    transport = new NodeHttpTransport({ proxy: false });
+    const before = targetConnections;
+
+    for (let i = 0; i < 3; i++) {
+      await transport.send({ method: 'GET', url: `${targetUrl}/entities`, headers: {} });
+    }
+
+    expect(targetConnections - before).toBe(1);
+  });
+
+  it('should send plain HTTP requests through a configured proxy', async () => {
+    transport = new NodeHttpTransport({ proxy: proxyUrl.replace('http://', 'http://user:secret@') });
+
+    const response = await transport.send({ method: 'GET', url: `${targetUrl}/entities`, headers: {} });
+
+    expect(JSON.parse(response.body)).toEqual({ via: 'proxy' });
+    expect(proxied[0].url).toBe(`${targetUrl}/entities`);
+    expect(proxied[0].auth).toBe(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+  });
+
+  it('should use HTTP_PROXY from the environment', async () => {
+    process.env.HTTP_PROXY = proxyUrl;
+    transport = new NodeHttpTransport();
+
+    const response = await transport.send({ method: 'GET', url: `${targetUrl}/entities`, headers: {} });
+
+    expect(JSON.parse(response.body)).toEqual({ via: 'proxy' });
+  });
+
+  it('should bypass the proxy for NO_PROXY hosts', async () => {
+    process.env.HTTP_PROXY = proxyUrl;
+    process.env.NO_PROXY = 'localhost,127.0.0.1';
+    transport = new NodeHttpTransport();
+
+    const response = await transport.send({ method: 'GET', url: `${targetUrl}/entities`, headers: {} });
+
+    expect(JSON.parse(response.body).path).toBe('/entities');
+    expect(proxied).toHaveLength(0);
+  });
+
+  it('should tunnel HTTPS requests with CONNECT', async () => {
+    transport = new NodeHttpTransport({ proxy: proxyUrl });
+
+    await expect(
+      transport.send({ method: 'GET', url: 'https://logs.logdot.io/api/v1/logs', headers: {} }),
+    ).rejects.toThrow('Proxy CONNECT to logs.logdot.io:443 failed with HTTP 403');
+    expect(proxied[0]).toMatchObject({ method: 'CONNECT', url: 'logs.logdot.io:443' });
+  });
+});
+
+describe('shouldBypassProxy', () => {
+  it('should match exact hosts, domains and wildcards', () => {
+    expect(shouldBypassProxy('logs.logdot.io', '443', 'logdot.io')).toBe(true);
+    expect(shouldBypassProxy('logs.logdot.io', '443', '.logdot.io')).toBe(true);
+    expect(shouldBypassProxy('logs.logdot.io', '443', '*.logdot.io')).toBe(true);
+    expect(shouldBypassProxy('logs.logdot.io', '443', 'example.com, *')).toBe(true);
+    expect(shouldBypassProxy('notlogdot.io', '443', 'logdot.io')).toBe(false);
+    expect(shouldBypassProxy('logs.logdot.io', '443', undefined)).toBe(false);
+  });
+
+  it('should honour ports', () => {
+    expect(shouldBypassProxy('localhost', '8080', 'localhost:8080')).toBe(true);
+    expect(shouldBypassProxy('localhost', '9090', 'localhost:8080')).toBe(false);
+  });
+});
+
+describe('HttpClient transport selection', () => {
+  afterEach(() => {
+    delete process.env.HTTPS_PROXY;
+  });
+
+  it('should use fetch when no proxy or keep-alive is configured', () => {
+    const client = new HttpClient({ apiKey: 'k' });
+    expect((client as any).transport).toBeInstanceOf(FetchTransport);
+  });
+
+  it('should use a shared pooled transport for equivalent proxy configs', () => {
+    const a = new HttpClient({ apiKey: 'k', proxy: 'http://proxy.internal:3128' });
+    const b = new HttpClient({ apiKey: 'other', proxy: 'http://proxy.internal:3128' });
+
+    expect((a as any).transport).toBeInstanceOf(NodeHttpTransport);
+    expect((a as any).transport).toBe((b as any).transport);
+    expect((a as any).transport).toBe(getSharedNodeTransport({ proxy: 'http://proxy.internal:3128', keepAlive: true }));
+  });
+
+  it('should pick up HTTPS_PROXY from the environment', () => {
+    process.env.HTTPS_PROXY = 'http://proxy.internal:3128';
+    const client = new HttpClient({ apiKey: 'k' });
+    expect((client as any).transport).toBeInstanceOf(NodeHttpTransport);
+  });
+
+  it('should ignore environment proxies when proxy is false', () => {
+    process.env.HTTPS_PROXY = 'http://proxy.internal:3128';
+    const client = new HttpClient({ apiKey: 'k', proxy: false });
+    expect((client as any).transport).toBeInstanceOf(FetchTransport);
+  });
+
+  it('should use a pooled transport when keepAlive is set', () => {
+    const client = new HttpClient({ apiKey: 'k', keepAlive: true });
+    expect((client as any).transport).toBeInstanceOf(NodeHttpTransport);
+  });
+});
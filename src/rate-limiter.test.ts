@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, getSharedRateLimiter } from './rate-limiter';
+import { LogDotAbortError, LogDotRateLimitError, LogDotTimeoutError } from './errors';
+import { HttpClient } from './http';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow a burst of one second of budget', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 3, behavior: 'drop-newest' });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(LogDotRateLimitError);
+    expect(limiter.getDroppedCount()).toBe(1);
+  });
+
+  it('should refill over time', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, behavior: 'drop-newest' });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    vi.advanceTimersByTime(500);
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+    await expect(limiter.acquire()).rejects.toThrow('client-side rate limit');
+  });
+
+  it('should queue requests until budget is available', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire();
+
+    let released = false;
+    const waiting = limiter.acquire().then(() => { released = true; });
+    expect(limiter.getQueueLength()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    await waiting;
+    expect(released).toBe(true);
+  });
+
+  it('should limit bytes per second', async () => {
+    const limiter = new RateLimiter({ bytesPerSecond: 1000, behavior: 'drop-newest' });
+
+    await limiter.acquire(800);
+    await expect(limiter.acquire(300)).rejects.toBeInstanceOf(LogDotRateLimitError);
+    await expect(limiter.acquire(200)).resolves.toBeUndefined();
+  });
+
+  it('should let an oversized request through once the bucket is full', async () => {
+    const limiter = new RateLimiter({ bytesPerSecond: 100, behavior: 'drop-newest' });
+    await expect(limiter.acquire(500)).resolves.toBeUndefined();
+  });
+
+  it('should drop new requests when the queue is full in queue mode', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, maxQueueSize: 1 });
+    await limiter.acquire();
+    const first = limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(LogDotRateLimitError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(first).resolves.toBeUndefined();
+  });
+
+  it('should drop the oldest waiter in drop-oldest mode', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, maxQueueSize: 1, behavior: 'drop-oldest' });
+    await limiter.acquire();
+    const oldest = limiter.acquire();
+    const newest = limiter.acquire();
+
+    await expect(oldest).rejects.toBeInstanceOf(LogDotRateLimitError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(newest).resolves.toBeUndefined();
+    expect(limiter.getDroppedCount()).toBe(1);
+  });
+
+  it('should leave the queue without taking budget when aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire();
+    const controller = new AbortController();
+    const aborted = limiter.acquire(0, controller.signal);
+    const next = limiter.acquire();
+
+    controller.abort(new Error('cancelled'));
+    await expect(aborted).rejects.toThrow('cancelled');
+    expect(limiter.getQueueLength()).toBe(1);
+
+    // The refilled token goes to the next waiter, not the aborted one
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBeUndefined();
+    expect(limiter.getDroppedCount()).toBe(0);
+  });
+
+  it('should reject at once when the signal is already aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+
+    await expect(limiter.acquire(0, AbortSignal.abort(new Error('cancelled')))).rejects.toThrow('cancelled');
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+  });
+});
+
+describe('getSharedRateLimiter', () => {
+  it('should share a limiter between clients with the same API key and limits', () => {
+    const config = { requestsPerSecond: 10 };
+    expect(getSharedRateLimiter('key-a', config)).toBe(getSharedRateLimiter('key-a', { ...config }));
+    expect(getSharedRateLimiter('key-a', config)).not.toBe(getSharedRateLimiter('key-b', config));
+  });
+});
+
+describe('HttpClient rate limiting', () => {
+  it('should reject dropped requests without sending them', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const config = { apiKey: 'rate-limited-key', transport: { send }, rateLimit: { requestsPerSecond: 1, behavior: 'drop-newest' as const } };
+    const a = new HttpClient(config);
+    const b = new HttpClient(config);
+
+    await a.post('https://example.test/logs', {});
+    await expect(b.post('https://example.test/logs', {})).rejects.toBeInstanceOf(LogDotRateLimitError);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(a.getRateLimitDroppedCount()).toBe(1);
+  });
+
+  it('should take budget for every retry attempt', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 503, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'retry-key',
+      transport: { send },
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+      rateLimit: { requestsPerSecond: 1, behavior: 'drop-newest' },
+    });
+
+    await expect(client.post('https://example.test/logs', {})).rejects.toBeInstanceOf(LogDotRateLimitError);
+    await expect(client.get('https://example.test/entities')).rejects.toBeInstanceOf(LogDotRateLimitError);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(client.getRateLimitDroppedCount()).toBe(2);
+  });
+
+  it('should count the body of each attempt against the byte budget', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 503, body: '', headers: {} });
+    const client = new HttpClient({
+      apiKey: 'retry-bytes-key',
+      transport: { send },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      rateLimit: { bytesPerSecond: 100, behavior: 'drop-newest' },
+    });
+
+    await expect(client.post('https://example.test/logs', { message: 'x'.repeat(60) })).rejects.toBeInstanceOf(
+      LogDotRateLimitError
+    );
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up waiting for budget once the deadline passes', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({ apiKey: 'deadline-key', transport: { send }, rateLimit: { requestsPerSecond: 1 } });
+    await client.post('https://example.test/logs', {});
+
+    const started = Date.now();
+    await expect(client.post('https://example.test/logs', {}, { deadlineMs: 20 })).rejects.toBeInstanceOf(LogDotTimeoutError);
+
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up waiting for budget when aborted', async () => {
+    const send = vi.fn().mockResolvedValue({ status: 200, body: '', headers: {} });
+    const client = new HttpClient({ apiKey: 'abort-key', transport: { send }, rateLimit: { requestsPerSecond: 1 } });
+    await client.post('https://example.test/logs', {});
+    const controller = new AbortController();
+
+    const pending = client.get('https://example.test/entities', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toBeInstanceOf(LogDotAbortError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Rate Limiter - Client-side token buckets for outbound requests
+ *
+ * Caps the sustained request rate and/or body bytes per second sent to
+ * LogDot, so a runaway loop cannot burn through the plan quota. Each
+ * bucket holds up to one second of budget, allowing short bursts. When
+ * the budget is exhausted, requests wait in a FIFO queue or are dropped,
+ * depending on `behavior`:
+ *
+ * - 'queue'       wait for budget; once the queue is full, new requests are dropped
+ * - 'drop-oldest' wait for budget; once the queue is full, the oldest waiter is dropped
+ * - 'drop-newest' never wait; requests arriving without budget are dropped
+ *
+ * Dropped requests reject with LogDotRateLimitError and are counted.
+ */
+
+import { LogDotRateLimitError } from './errors';
+import type { RateLimitBehavior, RateLimitConfig } from './types';
+
+/** Default cap on requests waiting for budget */
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+/**
+ * A token bucket refilled continuously at `ratePerSecond`, holding at
+ * most one second of tokens
+ */
+class TokenBucket {
+  private rate: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(ratePerSecond: number) {
+    this.rate = ratePerSecond;
+    this.tokens = ratePerSecond;
+  }
+
+  /**
+   * Take `amount` tokens if available. A request larger than the whole
+   * bucket is let through once the bucket is full, leaving it in debt.
+   */
+  tryTake(amount: number): boolean {
+    this.refill();
+    if (this.tokens < Math.min(amount, this.rate)) {
+      return false;
+    }
+    this.tokens -= amount;
+    return true;
+  }
+
+  /**
+   * Milliseconds until `amount` tokens could be taken
+   */
+  waitMs(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.rate) - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil((missing / this.rate) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.rate, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+interface Waiter {
+  bytes: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+export class RateLimiter {
+  private requests: TokenBucket | null;
+  private bytes: TokenBucket | null;
+  private behavior: RateLimitBehavior;
+  private maxQueueSize: number;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private dropped = 0;
+
+  constructor(config: RateLimitConfig) {
+    this.requests = config.requestsPerSecond ? new TokenBucket(config.requestsPerSecond) : null;
+    this.bytes = config.bytesPerSecond ? new TokenBucket(config.bytesPerSecond) : null;
+    this.behavior = config.behavior ?? 'queue';
+    this.maxQueueSize = Math.max(0, config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE);
+  }
+
+  /**
+   * Wait until a request of `bytes` fits in the budget.
+   *
+   * @param signal - Stop waiting when aborted; the request leaves the
+   *   queue without taking budget and rejects with `signal.reason`
+   * @throws LogDotRateLimitError if the request is dropped
+   */
+  acquire(bytes: number = 0, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.queue.length === 0 && this.tryTake(bytes)) {
+      return Promise.resolve();
+    }
+
+    if (this.behavior === 'drop-newest') {
+      return Promise.reject(this.drop());
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      if (this.behavior === 'queue' || this.queue.length === 0) {
+        return Promise.reject(this.drop());
+      }
+      this.queue.shift()!.reject(this.drop());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        bytes,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Get the number of requests dropped so far
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Get the number of requests waiting for budget
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  private tryTake(bytes: number): boolean {
+    // Check both buckets before taking from either
+    if ((this.requests?.waitMs(1) ?? 0) > 0 || (this.bytes?.waitMs(bytes) ?? 0) > 0) {
+      return false;
+    }
+    this.requests?.tryTake(1);
+    this.bytes?.tryTake(bytes);
+    return true;
+  }
+
+  private drop(): LogDotRateLimitError {
+    this.dropped++;
+    return new LogDotRateLimitError('Request dropped by client-side rate limit');
+  }
+
+  /**
+   * Wake up when the request at the head of the queue fits in the budget
+   */
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+
+    const head = this.queue[0];
+    const wait = Math.max(this.requests?.waitMs(1) ?? 0, this.bytes?.waitMs(head.bytes) ?? 0);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      while (this.queue.length > 0 && this.tryTake(this.queue[0].bytes)) {
+        this.queue.shift()!.resolve();
+      }
+      this.schedule();
+    }, wait);
+  }
+}
+
+/** Limiters shared between clients using the same API key and limits */
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the RateLimiter shared by every client with this API key and
+ * these limits, so they draw from one budget.
+ */
+export function getSharedRateLimiter(apiKey: string, config: RateLimitConfig): RateLimiter {
+  const key = JSON.stringify([
+    apiKey,
+    config.requestsPerSecond ?? null,
+    config.bytesPerSecond ?? null,
+    config.behavior ?? 'queue',
+    config.maxQueueSize ?? null,
+  ]);
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(config);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
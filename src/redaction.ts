@@ -0,0 +1,213 @@
+/**
+ * Redaction - Strip secrets and PII before anything leaves the process
+ *
+ * A Redactor redacts tag values whose key path matches a glob (e.g.
+ * `*authorization` matches `headers.Authorization` as well as the span
+ * attribute `http.request.header.authorization`) and every match of a
+ * pattern inside messages and string values. Matches are masked, replaced
+ * with a SHA-256 digest (so equal values can still be correlated) or removed.
+ */
+
+import { createHash } from 'node:crypto';
+import type { RedactionConfig, RedactionMode, RedactionPreset } from './types';
+
+/** Replacement for masked values */
+export const REDACTED = '[REDACTED]';
+
+interface PatternRule {
+  regex: RegExp;
+  /** Only redact matches that pass, e.g. a Luhn check for card numbers */
+  validate?: (match: string) => boolean;
+}
+
+interface PresetRules {
+  keys?: string[];
+  patterns?: PatternRule[];
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const PRESETS: Record<RedactionPreset, PresetRules> = {
+  auth: {
+    keys: [
+      '*authorization',
+      '*api_key',
+      '*api-key',
+      '*apikey',
+      '*access_token',
+      '*refresh_token',
+      '*id_token',
+      '*auth_token',
+      '*auth-token',
+      '*secret',
+    ],
+    patterns: [{ regex: /\b(?:Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi }],
+  },
+  cookies: {
+    keys: ['*cookie', '*cookies'],
+  },
+  passwords: {
+    keys: ['*password', '*passwd', '*passphrase'],
+    // The password in credentials embedded in a URL
+    patterns: [{ regex: /(?<=\/\/[^\s:@/]+:)[^\s@/]+(?=@)/g }],
+  },
+  emails: {
+    patterns: [{ regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g }],
+  },
+  creditCards: {
+    patterns: [{ regex: /\b\d(?:[ -]?\d){12,18}\b/g, validate: isLuhnValid }],
+  },
+  jwt: {
+    patterns: [{ regex: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g }],
+  },
+};
+
+/** Every built-in preset, applied unless `presets` says otherwise */
+export const REDACTION_PRESETS = Object.keys(PRESETS) as RedactionPreset[];
+
+/**
+ * Compile a key glob into a case-insensitive, anchored RegExp
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * The text a key-matched value is replaced from (what hash mode digests)
+ */
+function stringifyMatched(value: unknown): string {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // BigInt, circular values
+    return String(value);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export class Redactor {
+  private keyMatchers: RegExp[];
+  private patterns: PatternRule[];
+  private mode: RedactionMode;
+  private hashSalt: string;
+
+  constructor(config: RedactionConfig = {}) {
+    const presets = (config.presets ?? REDACTION_PRESETS).map((name) => PRESETS[name]);
+    this.keyMatchers = [...presets.flatMap((preset) => preset.keys ?? []), ...(config.keys ?? [])].map(globToRegExp);
+    this.patterns = [
+      ...presets.flatMap((preset) => preset.patterns ?? []),
+      ...(config.patterns ?? []).map((regex) => ({
+        // replace() needs the global flag to redact every match
+        regex: regex.global ? regex : new RegExp(regex.source, `${regex.flags}g`),
+      })),
+    ];
+    this.mode = config.mode ?? 'mask';
+    this.hashSalt = config.hashSalt ?? '';
+  }
+
+  /**
+   * Redact every pattern match in a string
+   */
+  redactString(text: string): string {
+    let result = text;
+    for (const { regex, validate } of this.patterns) {
+      result = result.replace(regex, (match) => (validate && !validate(match) ? match : this.replacement(match)));
+    }
+    return result;
+  }
+
+  /**
+   * Redact a tag object: values under matching key paths, and pattern
+   * matches in string values, including inside nested objects and arrays
+   */
+  redactTags(tags: Record<string, unknown>): Record<string, unknown> {
+    return this.redactValue(tags) as Record<string, unknown>;
+  }
+
+  /**
+   * Redact any value; objects other than plain objects and arrays are
+   * returned as they are
+   *
+   * @param path - Dotted key path of the value, matched against key globs
+   * @param ancestors - Objects enclosing the value, to cut cycles (an
+   *   object shared by siblings is not a cycle and is redacted each time)
+   */
+  redactValue(value: unknown, path = '', ancestors = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    ancestors.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value.map((item) => this.redactValue(item, path, ancestors));
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(value)) {
+        const innerPath = path ? `${path}.${key}` : key;
+        if (!this.keyMatchers.some((matcher) => matcher.test(innerPath))) {
+          result[key] = this.redactValue(inner, innerPath, ancestors);
+        } else if (this.mode !== 'remove') {
+          result[key] = this.replacement(stringifyMatched(inner));
+        }
+      }
+      return result;
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  private replacement(value: string): string {
+    switch (this.mode) {
+      case 'remove':
+        return '';
+      case 'hash':
+        return `sha256:${createHash('sha256').update(this.hashSalt + value).digest('hex').slice(0, 16)}`;
+      default:
+        return REDACTED;
+    }
+  }
+}
+
+/**
+ * Build a Redactor from a component's `redact` option
+ *
+ * @returns null when redaction is disabled
+ */
+export function createRedactor(config: RedactionConfig | boolean | undefined): Redactor | null {
+  if (!config) {
+    return null;
+  }
+  return new Redactor(config === true ? {} : config);
+}
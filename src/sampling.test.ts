@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Sampler } from './sampling';
+
+describe('Sampler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep levels without a rate', () => {
+    const sampler = new Sampler({ rates: { debug: 0 } }, () => 0.5);
+
+    expect(sampler.sample('error', 'boom')).toBe(1);
+    expect(sampler.sample('debug', 'noise')).toBe(0);
+  });
+
+  it('should keep a log when the draw is below the rate', () => {
+    const draws = [0.05, 0.5];
+    const sampler = new Sampler({ rates: { info: 0.1 } }, () => draws.shift() ?? 0);
+
+    expect(sampler.sample('info', 'a')).toBe(0.1);
+    expect(sampler.sample('info', 'b')).toBe(0);
+  });
+
+  it('should keep or drop all logs of a trace together', () => {
+    const sampler = new Sampler({ rates: { info: 0.5, debug: 0.5 } }, () => {
+      throw new Error('trace sampling must not draw');
+    });
+
+    for (let i = 0; i < 20; i++) {
+      const tags = { trace_id: `trace-${i}` };
+      expect(sampler.sample('debug', 'step', tags)).toBe(sampler.sample('info', 'done', tags));
+    }
+  });
+
+  it('should keep every trace kept at a lower rate at a higher one', () => {
+    const low = new Sampler({ rates: { info: 0.2 }, traceIdTag: 'tid' });
+    const high = new Sampler({ rates: { info: 0.6 }, traceIdTag: 'tid' });
+
+    for (let i = 0; i < 50; i++) {
+      const tags = { tid: i };
+      if (low.sample('info', 'x', tags) > 0) {
+        expect(high.sample('info', 'x', tags)).toBe(0.6);
+      }
+    }
+  });
+
+  it('should limit logs per level and message per interval', () => {
+    vi.useFakeTimers();
+    const sampler = new Sampler({ perMessage: { limit: 2, intervalMs: 1000 } });
+
+    expect([1, 2, 3].map(() => sampler.sample('info', 'hot'))).toEqual([1, 1, 0]);
+    expect(sampler.sample('warn', 'hot')).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(sampler.sample('info', 'hot')).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Sampling - Keep a fraction of high-volume logs
+ *
+ * Two rules, applied in order:
+ *
+ * - Rate: each level keeps a log with a configured probability. When the
+ *   log carries a trace id, the decision is a hash of the id instead of a
+ *   random draw, so every log of a sampled request is kept together (and
+ *   a trace kept at a lower rate is also kept at every higher one).
+ * - Per message: at most `limit` logs with the same level and message are
+ *   kept per interval, so a hot loop cannot flood the backend.
+ *
+ * Logs kept at a rate below 1 are tagged with the rate, so counts can be
+ * re-weighted (one log kept at 0.1 stands for ten).
+ */
+
+import type { LogLevel, SamplingConfig } from './types';
+
+/** Tag carrying the rate a sampled log was kept at */
+export const SAMPLE_RATE_TAG = 'sample_rate';
+
+/** Default tag holding the trace id */
+export const DEFAULT_TRACE_ID_TAG = 'trace_id';
+
+/** Default per-message window */
+export const DEFAULT_PER_MESSAGE_INTERVAL_MS = 1000;
+
+/** Distinct messages tracked before expired windows are pruned */
+const MAX_TRACKED_MESSAGES = 10000;
+
+/**
+ * Map a string to [0, 1) with 32-bit FNV-1a, finalized with the murmur3
+ * mix so ids differing only in their last characters spread evenly
+ */
+function hashFraction(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+export class Sampler {
+  private rates: Partial<Record<LogLevel, number>>;
+  private perMessageLimit: number;
+  private perMessageIntervalMs: number;
+  private traceIdTag: string;
+  private random: () => number;
+  private windows = new Map<string, { start: number; count: number }>();
+
+  /**
+   * @param random - Source of random draws in [0, 1) (injectable for tests)
+   */
+  constructor(config: SamplingConfig, random: () => number = Math.random) {
+    this.rates = config.rates ?? {};
+    this.perMessageLimit = config.perMessage?.limit ?? Infinity;
+    this.perMessageIntervalMs = config.perMessage?.intervalMs ?? DEFAULT_PER_MESSAGE_INTERVAL_MS;
+    this.traceIdTag = config.traceIdTag ?? DEFAULT_TRACE_ID_TAG;
+    this.random = random;
+  }
+
+  /**
+   * Decide whether to keep a log
+   *
+   * @returns the rate the log was kept at (1 when not rate-sampled), or
+   *   0 when it should be dropped
+   */
+  sample(level: LogLevel, message: string, tags?: Record<string, unknown>): number {
+    const rate = Math.min(1, Math.max(0, this.rates[level] ?? 1));
+    if (rate < 1) {
+      const traceId = tags?.[this.traceIdTag];
+      const draw = typeof traceId === 'string' || typeof traceId === 'number'
+        ? hashFraction(String(traceId))
+        : this.random();
+      if (draw >= rate) {
+        return 0;
+      }
+    }
+
+    if (this.perMessageLimit !== Infinity && !this.takePerMessage(`${level}:${message}`)) {
+      return 0;
+    }
+    return rate;
+  }
+
+  private takePerMessage(key: string): boolean {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= this.perMessageIntervalMs) {
+      if (!window && this.windows.size >= MAX_TRACKED_MESSAGES) {
+        this.prune(now);
+      }
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return window.count <= this.perMessageLimit;
+  }
+
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.perMessageIntervalMs) {
+        this.windows.delete(key);
+      }
+    }
+    // Every window still open: forget them all rather than grow without bound
+    if (this.windows.size >= MAX_TRACKED_MESSAGES) {
+      this.windows.clear();
+    }
+  }
+}
+
+/**
+ * Build a Sampler from a component's `sampling` option
+ *
+ * @returns null when sampling is not configured
+ */
+export function createSampler(config: SamplingConfig | undefined): Sampler | null {
+  return config ? new Sampler(config) : null;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Spool, getSharedSpool } from './spool';
+import type { SpoolRecord } from './spool';
+
+describe('Spool', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'logdot-spool-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function segmentFiles(): Promise<string[]> {
+    return (await fs.readdir(directory)).sort();
+  }
+
+  it('should append payloads as NDJSON lines', async () => {
+    const spool = new Spool({ directory });
+    await spool.append('https://logs.test/logs', { message: 'a' });
+    await spool.append('https://logs.test/logs', { message: 'b' });
+
+    const files = await segmentFiles();
+    expect(files).toEqual(['segment-000001.ndjson']);
+
+    const lines = (await fs.readFile(path.join(directory, files[0]), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).body)).toEqual([{ message: 'a' }, { message: 'b' }]);
+  });
+
+  it('should rotate segments at maxSegmentBytes', async () => {
+    const spool = new Spool({ directory, maxSegmentBytes: 100 });
+    for (let i = 0; i < 3; i++) {
+      await spool.append('https://logs.test/logs', { message: 'x'.repeat(40) });
+    }
+
+    expect(await segmentFiles()).toEqual([
+      'segment-000001.ndjson',
+      'segment-000002.ndjson',
+      'segment-000003.ndjson',
+    ]);
+  });
+
+  it('should delete the oldest segments beyond maxTotalBytes', async () => {
+    const spool = new Spool({ directory, maxSegmentBytes: 100, maxTotalBytes: 300 });
+    for (let i = 0; i < 5; i++) {
+      await spool.append('https://logs.test/logs', { message: 'x'.repeat(40), i });
+    }
+
+    expect(await segmentFiles()).toEqual(['segment-000004.ndjson', 'segment-000005.ndjson']);
+    expect(spool.getDroppedCount()).toBe(3);
+  });
+
+  it('should replay payloads in order and remove them', async () => {
+    const spool = new Spool({ directory, maxSegmentBytes: 100 });
+    for (let i = 0; i < 4; i++) {
+      await spool.append('https://logs.test/logs', { i });
+    }
+
+    const replayed: unknown[] = [];
+    const removed = await spool.replay(async (record) => {
+      replayed.push(record.body);
+      return true;
+    });
+
+    expect(removed).toBe(4);
+    expect(replayed).toEqual([{ i: 0 }, { i: 1 }, { i: 2 }, { i: 3 }]);
+    expect(await segmentFiles()).toEqual([]);
+    expect(await spool.hasPending()).toBe(false);
+  });
+
+  it('should keep undelivered payloads for the next replay', async () => {
+    const spool = new Spool({ directory });
+    for (let i = 0; i < 3; i++) {
+      await spool.append('https://logs.test/logs', { i });
+    }
+
+    await spool.replay(async (record) => (record.body as { i: number }).i < 1);
+
+    const remaining: SpoolRecord[] = [];
+    await spool.replay(async (record) => {
+      remaining.push(record);
+      return true;
+    });
+    expect(remaining.map((record) => record.body)).toEqual([{ i: 1 }, { i: 2 }]);
+  });
+
+  it('should pick up segments left by a previous process', async () => {
+    await new Spool({ directory }).append('https://metrics.test/metrics', { value: 1 });
+
+    const restarted = new Spool({ directory });
+    expect(await restarted.hasPending()).toBe(true);
+
+    const replayed: SpoolRecord[] = [];
+    await restarted.replay(async (record) => {
+      replayed.push(record);
+      return true;
+    });
+    expect(replayed[0]).toMatchObject({ url: 'https://metrics.test/metrics', body: { value: 1 } });
+  });
+
+  it('should append to a new segment while replaying', async () => {
+    const spool = new Spool({ directory });
+    await spool.append('https://logs.test/logs', { i: 0 });
+
+    await spool.replay(async () => {
+      await spool.append('https://logs.test/logs', { i: 1 });
+      return false;
+    });
+
+    expect(await segmentFiles()).toEqual(['segment-000001.ndjson', 'segment-000002.ndjson']);
+  });
+
+  it('should share one spool per directory', () => {
+    expect(getSharedSpool({ directory })).toBe(getSharedSpool({ directory: `${directory}/` }));
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Spool - Disk-backed store for payloads that could not be delivered
+ *
+ * Payloads that exhausted their retries are appended as NDJSON lines to
+ * numbered segment files (`segment-000001.ndjson`, ...). A segment is
+ * rotated once it reaches `maxSegmentBytes`, and the oldest segments are
+ * deleted when the spool grows past `maxTotalBytes`. Replay reads the
+ * segments oldest-first and stops at the first payload that still cannot
+ * be delivered, so order is preserved across restarts.
+ *
+ * A spool directory should be used by one process at a time.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { SpoolConfig } from './types';
+
+/** A payload waiting to be delivered */
+export interface SpoolRecord {
+  /** Absolute URL the payload was posted to */
+  url: string;
+  /** The JSON request body */
+  body: unknown;
+  /** When the payload was spooled (epoch ms) */
+  spooledAt: number;
+}
+
+/** Default segment size before rotating */
+const DEFAULT_MAX_SEGMENT_BYTES = 1024 * 1024;
+
+/** Default cap on the whole spool */
+const DEFAULT_MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.ndjson$/;
+
+interface Segment {
+  seq: number;
+  bytes: number;
+}
+
+function segmentName(seq: number): string {
+  return `segment-${String(seq).padStart(6, '0')}.ndjson`;
+}
+
+export class Spool {
+  private directory: string;
+  private maxSegmentBytes: number;
+  private maxTotalBytes: number;
+  /** Known segments, oldest first; the last one is appended to */
+  private segments: Segment[] = [];
+  /** Set while replay holds the oldest segment; appends must not reuse it */
+  private sealedSeq = 0;
+  private ready: Promise<void> | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+  private replaying = false;
+  private droppedRecords = 0;
+
+  constructor(config: SpoolConfig) {
+    this.directory = path.resolve(config.directory);
+    this.maxSegmentBytes = config.maxSegmentBytes ?? DEFAULT_MAX_SEGMENT_BYTES;
+    this.maxTotalBytes = config.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  }
+
+  /**
+   * Get the absolute spool directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Append a payload to the newest segment, rotating and trimming as needed
+   */
+  async append(url: string, body: unknown): Promise<void> {
+    const record: SpoolRecord = { url, body, spooledAt: Date.now() };
+    const line = `${JSON.stringify(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    await this.exclusive(async () => {
+      let current = this.segments[this.segments.length - 1];
+      if (!current || current.seq <= this.sealedSeq || (current.bytes > 0 && current.bytes + bytes > this.maxSegmentBytes)) {
+        current = { seq: (current?.seq ?? this.sealedSeq) + 1, bytes: 0 };
+        this.segments.push(current);
+      }
+
+      await fs.appendFile(this.segmentPath(current.seq), line);
+      current.bytes += bytes;
+
+      await this.trim();
+    });
+  }
+
+  /**
+   * Replay spooled payloads oldest-first.
+   *
+   * `deliver` returns true once a payload has been dealt with (it is then
+   * removed) or false to stop; undelivered payloads stay on disk for the
+   * next replay. Concurrent calls return 0 immediately.
+   *
+   * @returns Number of payloads removed from the spool
+   */
+  async replay(deliver: (record: SpoolRecord) => Promise<boolean>): Promise<number> {
+    if (this.replaying) return 0;
+    this.replaying = true;
+
+    let removed = 0;
+    try {
+      for (;;) {
+        const segment = await this.exclusive(async () => {
+          const oldest = this.segments[0];
+          // Seal the segment so new appends start a fresh one while it is replayed
+          if (oldest) this.sealedSeq = Math.max(this.sealedSeq, oldest.seq);
+          return oldest;
+        });
+        if (!segment) break;
+
+        const lines = await this.readLines(segment.seq);
+        let delivered = 0;
+        for (const line of lines) {
+          let record: SpoolRecord;
+          try {
+            record = JSON.parse(line) as SpoolRecord;
+          } catch {
+            // A torn write from a crash; nothing to deliver
+            delivered++;
+            continue;
+          }
+          if (!(await deliver(record))) break;
+          delivered++;
+          removed++;
+        }
+
+        const finished = await this.exclusive(() => this.settle(segment, lines, delivered));
+        if (!finished) break;
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Whether any payloads are waiting (after the spool has been loaded)
+   */
+  async hasPending(): Promise<boolean> {
+    await this.init();
+    return this.segments.some((segment) => segment.bytes > 0);
+  }
+
+  /**
+   * Get the total size of all segments in bytes
+   */
+  async getSizeBytes(): Promise<number> {
+    await this.init();
+    return this.segments.reduce((total, segment) => total + segment.bytes, 0);
+  }
+
+  /**
+   * Get the number of payloads deleted to stay under maxTotalBytes
+   */
+  getDroppedCount(): number {
+    return this.droppedRecords;
+  }
+
+  /**
+   * Remove the delivered prefix of a replayed segment.
+   * Returns true when the whole segment was consumed.
+   */
+  private async settle(segment: Segment, lines: string[], delivered: number): Promise<boolean> {
+    // The segment may have been trimmed away while it was being replayed
+    if (!this.segments.includes(segment)) {
+      return true;
+    }
+
+    if (delivered >= lines.length) {
+      await fs.rm(this.segmentPath(segment.seq), { force: true });
+      this.segments.shift();
+      return true;
+    }
+
+    const remaining = lines.slice(delivered).map((line) => `${line}\n`).join('');
+    await fs.writeFile(this.segmentPath(segment.seq), remaining);
+    segment.bytes = Buffer.byteLength(remaining);
+    return false;
+  }
+
+  /**
+   * Delete the oldest segments until the spool fits in maxTotalBytes.
+   * The newest segment is always kept.
+   */
+  private async trim(): Promise<void> {
+    let total = this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+    while (total > this.maxTotalBytes && this.segments.length > 1) {
+      const oldest = this.segments.shift()!;
+      this.droppedRecords += (await this.readLines(oldest.seq)).length;
+      await fs.rm(this.segmentPath(oldest.seq), { force: true });
+      total -= oldest.bytes;
+    }
+  }
+
+  /**
+   * Read the non-empty lines of a segment (empty if it no longer exists)
+   */
+  private async readLines(seq: number): Promise<string[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.segmentPath(seq), 'utf8');
+    } catch {
+      return [];
+    }
+    return content.split('\n').filter((line) => line.length > 0);
+  }
+
+  /**
+   * Run an operation after the spool is loaded, one at a time
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(() => this.init()).then(fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Create the directory and discover segments left by a previous run
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await fs.mkdir(this.directory, { recursive: true });
+        const segments: Segment[] = [];
+        for (const name of await fs.readdir(this.directory)) {
+          const match = SEGMENT_PATTERN.exec(name);
+          if (!match) continue;
+          const stat = await fs.stat(path.join(this.directory, name));
+          segments.push({ seq: parseInt(match[1], 10), bytes: stat.size });
+        }
+        this.segments = segments.sort((a, b) => a.seq - b.seq);
+      })();
+    }
+    return this.ready;
+  }
+
+  private segmentPath(seq: number): string {
+    return path.join(this.directory, segmentName(seq));
+  }
+}
+
+/** Spools shared between clients writing to the same directory */
+const sharedSpools = new Map<string, Spool>();
+
+/**
+ * Get the Spool shared by every client using this directory, so logs and
+ * metrics from one process append to (and replay from) a single queue.
+ */
+export function getSharedSpool(config: SpoolConfig): Spool {
+  const key = path.resolve(config.directory);
+  let spool = sharedSpools.get(key);
+  if (!spool) {
+    spool = new Spool(config);
+    sharedSpools.set(key, spool);
+  }
+  return spool;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StatsCollector } from './stats';
+import { FakeLogDotServer } from './testing';
+import { LogDotLogger } from './logger';
+import { LogDotMetrics } from './metrics';
+import { LogDotRateLimitError } from './errors';
+
+describe('StatsCollector', () => {
+  it('should count responses by status and bytes', () => {
+    const stats = new StatsCollector();
+    stats.recordResponse(500, 10);
+    stats.recordResponse(200, 10);
+    stats.recordNetworkError(5);
+
+    expect(stats.snapshot()).toMatchObject({
+      requests: 3,
+      networkErrors: 1,
+      bytesSent: 25,
+      statusCodes: { '200': 1, '500': 1 },
+    });
+  });
+
+  it('should count client-side rate limit drops as dropped', () => {
+    const stats = new StatsCollector();
+    stats.recordFailure(new LogDotRateLimitError('dropped'));
+    stats.recordFailure(new LogDotRateLimitError('server', { status: 429 }));
+
+    expect(stats.snapshot()).toMatchObject({ dropped: 1, failed: 1 });
+  });
+
+  it('should return copies', () => {
+    const stats = new StatsCollector();
+    const snapshot = stats.snapshot();
+    stats.recordResponse(200, 1);
+
+    expect(snapshot.statusCodes).toEqual({});
+  });
+});
+
+describe('component stats', () => {
+  let server: FakeLogDotServer;
+
+  beforeEach(() => {
+    server = new FakeLogDotServer();
+  });
+
+  function makeLogger(overrides: Record<string, unknown> = {}): LogDotLogger {
+    return new LogDotLogger({
+      apiKey: 'test_key',
+      hostname: 'test-service',
+      transport: server,
+      retryAttempts: 2,
+      retryDelayMs: 1,
+      ...overrides,
+    });
+  }
+
+  it('should count logger sends, retries and failures', async () => {
+    const logger = makeLogger();
+    server.failNext(503);
+    await logger.info('retried');
+    server.failNext(400);
+    await logger.info('rejected');
+
+    const stats = logger.getStats();
+    expect(stats).toMatchObject({ enqueued: 2, sent: 1, failed: 1, requests: 3, retries: 1 });
+    expect(stats.statusCodes).toEqual({ '200': 1, '400': 1, '503': 1 });
+    expect(stats.bytesSent).toBeGreaterThan(0);
+  });
+
+  it('should share stats with derived loggers and track queue depth', async () => {
+    const logger = makeLogger();
+    const child = logger.withContext({ request_id: 'abc' });
+    child.beginBatch();
+    await child.info('one');
+    await child.info('two');
+
+    expect(logger.getStats()).toMatchObject({ enqueued: 2, queueDepth: 2 });
+
+    await child.sendBatch();
+    expect(logger.getStats()).toMatchObject({ sent: 2, queueDepth: 0 });
+  });
+
+  it('should share stats between a metrics client and its bound clients', async () => {
+    const metrics = new LogDotMetrics({ apiKey: 'test_key', transport: server });
+    const client = metrics.forEntity(server.addEntity({ name: 'svc' }).id);
+    await client.send('cpu', 1, 'percent');
+    client.beginBatch('latency', 'ms');
+    client.add(10);
+
+    expect(metrics.getStats()).toMatchObject({ enqueued: 2, sent: 1, queueDepth: 1 });
+    client.endBatch();
+    expect(client.getStats().queueDepth).toBe(0);
+  });
+
+  it('should report stats as metrics on the configured entity', async () => {
+    const logger = makeLogger({ selfReport: { entityName: 'sdk-health', intervalMs: 60000 } });
+    await logger.info('hello');
+
+    await expect(logger.reportStats()).resolves.toBe(true);
+
+    const [entity] = server.getEntities();
+    expect(entity.name).toBe('sdk-health');
+    const sent = server.metrics.find((metric) => metric.name === 'logdot_sdk.sent');
+    expect(sent).toEqual({ entityId: entity.id, name: 'logdot_sdk.sent', value: 1, unit: 'count', tags: ['component:logger'] });
+    expect(server.metrics).toContainEqual(expect.objectContaining({
+      name: 'logdot_sdk.responses',
+      tags: ['component:logger', 'status:200'],
+    }));
+  });
+
+  it('should not report without selfReport', async () => {
+    await expect(makeLogger().reportStats()).resolves.toBe(false);
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Stats - Self-telemetry for SDK components
+ *
+ * Each component (logger, metrics client, console capture, exporters)
+ * owns a StatsCollector. The component counts items as they are
+ * enqueued, sent, spooled, failed or dropped, and its HttpClient counts
+ * requests, retries, status codes and bytes. getStats() returns a
+ * snapshot; SelfReporter can also post the counters to LogDot as metrics.
+ */
+
+import type { HttpClient } from './http';
+import { LogDotRateLimitError } from './errors';
+import type { BatchChunkResult, EntityResponse, SdkStats, SelfReportConfig } from './types';
+
+/** Default interval between self-reports */
+const DEFAULT_SELF_REPORT_INTERVAL_MS = 60000;
+
+/** Item counters a component updates directly */
+export type StatsCounter = 'enqueued' | 'sent' | 'spooled' | 'failed' | 'dropped' | 'retries' | 'queueDepth';
+
+/**
+ * Accumulates the counters behind getStats()
+ */
+export class StatsCollector {
+  private counters: Omit<SdkStats, 'statusCodes'> = {
+    enqueued: 0,
+    sent: 0,
+    spooled: 0,
+    failed: 0,
+    dropped: 0,
+    requests: 0,
+    retries: 0,
+    networkErrors: 0,
+    bytesSent: 0,
+    queueDepth: 0,
+  };
+  private statusCodes: Record<string, number> = {};
+
+  /**
+   * Add to a counter (negative amounts are allowed for queueDepth)
+   */
+  add(counter: StatsCounter, amount: number = 1): void {
+    this.counters[counter] += amount;
+  }
+
+  /**
+   * Count items whose delivery failed: 'dropped' when the client-side
+   * rate limit discarded them, otherwise `failure`
+   */
+  recordFailure(error: unknown, items: number = 1, failure: 'failed' | 'dropped' = 'failed'): void {
+    const rateLimited = error instanceof LogDotRateLimitError && error.status === undefined;
+    this.add(rateLimited ? 'dropped' : failure, items);
+  }
+
+  /**
+   * Count the items of a sent batch by chunk outcome
+   */
+  recordChunks(chunks: BatchChunkResult[], failure: 'failed' | 'dropped' = 'failed'): void {
+    for (const chunk of chunks) {
+      if (chunk.success) {
+        this.add(chunk.spooled ? 'spooled' : 'sent', chunk.entries);
+      } else {
+        this.recordFailure(chunk.error, chunk.entries, failure);
+      }
+    }
+  }
+
+  /**
+   * Record an attempt that received a response
+   */
+  recordResponse(status: number, bytes: number): void {
+    this.counters.requests++;
+    this.counters.bytesSent += bytes;
+    this.statusCodes[status] = (this.statusCodes[status] ?? 0) + 1;
+  }
+
+  /**
+   * Record an attempt that failed without a response
+   */
+  recordNetworkError(bytes: number): void {
+    this.counters.requests++;
+    this.counters.networkErrors++;
+    this.counters.bytesSent += bytes;
+  }
+
+  /**
+   * Get a copy of the current counters
+   */
+  snapshot(): SdkStats {
+    return { ...this.counters, statusCodes: { ...this.statusCodes } };
+  }
+}
+
+/** Counters reported as metrics, with their units */
+const REPORTED: Array<[keyof Omit<SdkStats, 'statusCodes'>, string]> = [
+  ['enqueued', 'count'],
+  ['sent', 'count'],
+  ['spooled', 'count'],
+  ['failed', 'count'],
+  ['dropped', 'count'],
+  ['requests', 'count'],
+  ['retries', 'count'],
+  ['networkErrors', 'count'],
+  ['bytesSent', 'bytes'],
+  ['queueDepth', 'count'],
+];
+
+/**
+ * Periodically posts a component's stats to LogDot as metrics on a
+ * dedicated entity. Values are cumulative since the component started
+ * (queueDepth is the current depth); the report's own requests are
+ * included in the counters.
+ */
+export class SelfReporter {
+  private http: HttpClient;
+  private metricsUrl: string;
+  private config: SelfReportConfig;
+  private component: string;
+  private collector: StatsCollector;
+  private entityId: string | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    http: HttpClient,
+    metricsUrl: string,
+    config: SelfReportConfig,
+    component: string,
+    collector: StatsCollector
+  ) {
+    this.http = http;
+    this.metricsUrl = metricsUrl;
+    this.config = config;
+    this.component = component;
+    this.collector = collector;
+  }
+
+  /**
+   * Start reporting every `intervalMs` (does not keep the process alive)
+   */
+  start(): void {
+    if (this.timer) return;
+    const timer = setInterval(() => {
+      this.report().catch(() => {
+        // Self-telemetry is best-effort
+      });
+    }, this.config.intervalMs ?? DEFAULT_SELF_REPORT_INTERVAL_MS);
+    timer.unref?.();
+    this.timer = timer;
+  }
+
+  /**
+   * Stop periodic reporting
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Post the current stats once
+   *
+   * @returns true if the report was accepted
+   */
+  async report(): Promise<boolean> {
+    const entityId = await this.resolveEntity();
+    if (!entityId) return false;
+
+    const stats = this.collector.snapshot();
+    const tags = [`component:${this.component}`, ...Object.entries(this.config.tags ?? {}).map(([k, v]) => `${k}:${v}`)];
+    const metrics = REPORTED.map(([counter, unit]) => ({
+      name: `logdot_sdk.${counter}`,
+      value: stats[counter],
+      unit,
+      tags,
+    }));
+    for (const [status, count] of Object.entries(stats.statusCodes)) {
+      metrics.push({ name: 'logdot_sdk.responses', value: count, unit: 'count', tags: [...tags, `status:${status}`] });
+    }
+
+    const response = await this.http.post(`${this.metricsUrl}/metrics/batch`, { entity_id: entityId, metrics });
+    return response.status === 200 || response.status === 201;
+  }
+
+  /**
+   * Find or create the report entity, caching its ID
+   */
+  private async resolveEntity(): Promise<string | null> {
+    if (this.entityId) return this.entityId;
+
+    const name = this.config.entityName;
+    const found = await this.http.get<EntityResponse>(`${this.metricsUrl}/entities/by-name/${encodeURIComponent(name)}`);
+    if (found.status === 200 && found.data?.data?.id) {
+      this.entityId = found.data.data.id;
+      return this.entityId;
+    }
+
+    const created = await this.http.post<EntityResponse>(`${this.metricsUrl}/entities`, {
+      name,
+      description: 'LogDot SDK self-telemetry',
+    });
+    if ((created.status === 200 || created.status === 201) && created.data?.data?.id) {
+      this.entityId = created.data.data.id;
+    }
+    return this.entityId;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeLogDotServer } from './testing';
+import { LogDotLogger } from './logger';
+import { LogDotMetrics } from './metrics';
+import { LogDotRateLimitError, LogDotTimeoutError } from './errors';
+
+describe('FakeLogDotServer', () => {
+  let server: FakeLogDotServer;
+
+  beforeEach(() => {
+    server = new FakeLogDotServer();
+  });
+
+  function makeLogger(overrides: Record<string, unknown> = {}): LogDotLogger {
+    return new LogDotLogger({
+      apiKey: 'test_key',
+      hostname: 'test-service',
+      transport: server,
+      retryAttempts: 1,
+      ...overrides,
+    });
+  }
+
+  describe('logs', () => {
+    it('should record single logs', async () => {
+      await expect(makeLogger().info('hello', { user_id: 1 })).resolves.toBe(true);
+
+      expect(server.logs).toEqual([
+        { hostname: 'test-service', message: 'hello', severity: 'info', timestamp: expect.any(String), tags: { user_id: 1 } },
+      ]);
+      expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/api/v1/logs', status: 200 });
+    });
+
+    it('should record batched logs', async () => {
+      const logger = makeLogger();
+      logger.beginBatch();
+      await logger.info('one');
+      await logger.error('two');
+      await logger.sendBatch();
+
+      expect(server.logs.map((log) => log.message)).toEqual(['one', 'two']);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should decode compressed bodies', async () => {
+      const logger = makeLogger({ compression: 'gzip', compressionThresholdBytes: 0 });
+      await logger.info('compressed');
+
+      expect(server.logs[0].message).toBe('compressed');
+    });
+
+    it('should reject payloads that do not match the schema', async () => {
+      const logger = makeLogger();
+      await expect(logger.log('verbose' as never, 'bad level')).resolves.toBe(false);
+
+      expect(server.logs).toHaveLength(0);
+      expect(server.validationErrors).toEqual([
+        { path: '/api/v1/logs', errors: ['severity must be one of debug, info, warn, error'] },
+      ]);
+    });
+  });
+
+  describe('metrics and entities', () => {
+    it('should create and look up entities', async () => {
+      const metrics = new LogDotMetrics({ apiKey: 'test_key', transport: server });
+
+      await expect(metrics.getEntityByName('svc')).resolves.toBeNull();
+      const created = await metrics.createEntity({ name: 'svc', description: 'A service' });
+      const found = await metrics.getEntityByName('svc');
+
+      expect(found).toEqual({ id: created!.id, name: 'svc', description: 'A service' });
+      expect(server.getEntities()).toHaveLength(1);
+    });
+
+    it('should record single and batched metrics', async () => {
+      const metrics = new LogDotMetrics({ apiKey: 'test_key', transport: server });
+      const entity = server.addEntity({ name: 'svc' });
+      const client = metrics.forEntity(entity.id);
+
+      await client.send('cpu', 42, 'percent', { host: 'a' });
+      client.beginBatch('latency', 'ms');
+      client.add(10);
+      client.add(20);
+      await client.sendBatch();
+
+      expect(server.metrics).toEqual([
+        { entityId: entity.id, name: 'cpu', value: 42, unit: 'percent', tags: ['host:a'] },
+        { entityId: entity.id, name: 'latency', value: 10, unit: 'ms' },
+        { entityId: entity.id, name: 'latency', value: 20, unit: 'ms' },
+      ]);
+    });
+  });
+
+  describe('scripting', () => {
+    it('should reject unknown API keys', async () => {
+      server = new FakeLogDotServer({ apiKey: 'expected' });
+
+      await expect(makeLogger().info('hello')).resolves.toBe(false);
+      expect(server.requests[0].status).toBe(401);
+    });
+
+    it('should return scripted errors for matching paths only', async () => {
+      server.failNext(500, 1, '/metrics');
+      await makeLogger().info('unaffected');
+
+      expect(server.logs).toHaveLength(1);
+    });
+
+    it('should rate limit with Retry-After', async () => {
+      server.rateLimit(7);
+      const logger = makeLogger({ throwOnError: true });
+
+      const error = await logger.info('hello').catch((e) => e);
+      expect(error).toBeInstanceOf(LogDotRateLimitError);
+      expect(error.retryAfterMs).toBe(7000);
+    });
+
+    it('should recover after the scripted failures are used up', async () => {
+      server.networkError(1);
+      const logger = makeLogger({ retryAttempts: 2, retryDelayMs: 1 });
+
+      await expect(logger.info('hello')).resolves.toBe(true);
+      expect(server.requests.map((request) => request.status)).toEqual([0, 200]);
+    });
+
+    it('should add latency that respects the client timeout', async () => {
+      server.enqueue({ latencyMs: 200 });
+      const logger = makeLogger({ timeout: 20, throwOnError: true });
+
+      await expect(logger.info('slow')).rejects.toBeInstanceOf(LogDotTimeoutError);
+    });
+
+    it('should forget everything on reset', async () => {
+      await makeLogger().info('hello');
+      server.failNext(500);
+      server.reset();
+
+      await makeLogger().info('again');
+      expect(server.logs).toHaveLength(1);
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
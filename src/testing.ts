@@ -0,0 +1,491 @@
+/**
+ * LogDot Testing - An in-memory fake of the LogDot API
+ *
+ * FakeLogDotServer is a Transport that answers requests the way the LogDot
+ * API does, without touching the network. Pass it as `transport` to any
+ * SDK client, then assert on what was received. Payloads are validated
+ * against the API schema (invalid ones get a 400 and are recorded in
+ * `validationErrors`), and failures, latency and rate limits can be
+ * scripted per endpoint.
+ *
+ * @example
+ * ```typescript
+ * import { LogDotLogger } from '@logdot-io/sdk';
+ * import { FakeLogDotServer } from '@logdot-io/sdk/testing';
+ *
+ * const server = new FakeLogDotServer();
+ * const logger = new LogDotLogger({ apiKey: 'test', hostname: 'svc', transport: server });
+ *
+ * server.rateLimit(0);
+ * await logger.info('hello');
+ *
+ * expect(server.logs).toEqual([
+ *   expect.objectContaining({ message: 'hello', severity: 'info' }),
+ * ]);
+ * ```
+ */
+
+import { gunzipSync, inflateSync } from 'zlib';
+import type { Transport, TransportRequest, TransportResponse } from './transport.js';
+
+/** A request received by the fake server */
+export interface RecordedRequest {
+  /** HTTP method */
+  method: 'GET' | 'POST';
+  /** Absolute request URL */
+  url: string;
+  /** URL path, e.g. /api/v1/logs/batch */
+  path: string;
+  /** Request headers as sent */
+  headers: Record<string, string>;
+  /** Parsed (and decompressed) JSON body, if any */
+  body: unknown;
+  /** Status the fake answered with (0 for a scripted network error) */
+  status: number;
+}
+
+/** A log entry accepted by /logs or /logs/batch */
+export interface ReceivedLog {
+  hostname: string;
+  message: string;
+  severity: string;
+  timestamp?: string;
+  tags?: Record<string, unknown>;
+}
+
+/** A metric accepted by /metrics or /metrics/batch */
+export interface ReceivedMetric {
+  entityId: string;
+  name: string;
+  value: number;
+  unit: string;
+  tags?: string[];
+}
+
+/** An entity known to the fake server */
+export interface FakeEntity {
+  id: string;
+  name: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** A schema violation found in a received payload */
+export interface ValidationFailure {
+  /** URL path of the offending request */
+  path: string;
+  /** Human-readable problems with the payload */
+  errors: string[];
+}
+
+/** A scripted answer for upcoming requests */
+export interface ScriptedResponse {
+  /** Only match requests whose path ends with this, e.g. '/logs/batch' (default: any endpoint) */
+  path?: string;
+  /** Respond with this status instead of handling the request */
+  status?: number;
+  /** JSON body for the scripted status */
+  body?: unknown;
+  /** Headers for the scripted status */
+  headers?: Record<string, string>;
+  /** Reject with this error instead of responding (simulates a network failure) */
+  error?: Error;
+  /** Wait this long before answering */
+  latencyMs?: number;
+  /** Number of matching requests this applies to (default: 1; Infinity for all) */
+  times?: number;
+}
+
+/** FakeLogDotServer options */
+export interface FakeLogDotServerOptions {
+  /** Only accept this API key; any other gets a 401 (default: any non-empty key) */
+  apiKey?: string;
+  /** Latency added to every request in milliseconds (default: 0) */
+  latencyMs?: number;
+}
+
+/** Severities accepted by the logs API */
+const SEVERITIES = new Set(['debug', 'info', 'warn', 'error']);
+
+type Validator = (body: Record<string, unknown>, errors: string[]) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(body: Record<string, unknown>, field: string, errors: string[], prefix = ''): void {
+  if (typeof body[field] !== 'string' || body[field] === '') {
+    errors.push(`${prefix}${field} must be a non-empty string`);
+  }
+}
+
+function validateLogFields(log: Record<string, unknown>, errors: string[], prefix: string): void {
+  requireString(log, 'message', errors, prefix);
+  if (!SEVERITIES.has(log.severity as string)) {
+    errors.push(`${prefix}severity must be one of ${[...SEVERITIES].join(', ')}`);
+  }
+  if (log.tags !== undefined && !isObject(log.tags)) {
+    errors.push(`${prefix}tags must be an object`);
+  }
+  if (log.timestamp !== undefined && (typeof log.timestamp !== 'string' || Number.isNaN(Date.parse(log.timestamp)))) {
+    errors.push(`${prefix}timestamp must be an ISO 8601 string`);
+  }
+}
+
+function validateMetricFields(metric: Record<string, unknown>, errors: string[], prefix: string): void {
+  if (typeof metric.value !== 'number' || !Number.isFinite(metric.value)) {
+    errors.push(`${prefix}value must be a finite number`);
+  }
+  requireString(metric, 'unit', errors, prefix);
+  if (metric.tags !== undefined && (!Array.isArray(metric.tags) || !metric.tags.every((t) => typeof t === 'string'))) {
+    errors.push(`${prefix}tags must be an array of "key:value" strings`);
+  }
+}
+
+const validateLog: Validator = (body, errors) => {
+  requireString(body, 'hostname', errors);
+  validateLogFields(body, errors, '');
+};
+
+const validateLogBatch: Validator = (body, errors) => {
+  requireString(body, 'hostname', errors);
+  if (!Array.isArray(body.logs) || body.logs.length === 0) {
+    errors.push('logs must be a non-empty array');
+    return;
+  }
+  body.logs.forEach((log, i) => {
+    if (!isObject(log)) {
+      errors.push(`logs[${i}] must be an object`);
+    } else {
+      validateLogFields(log, errors, `logs[${i}].`);
+    }
+  });
+};
+
+const validateMetric: Validator = (body, errors) => {
+  requireString(body, 'entity_id', errors);
+  requireString(body, 'name', errors);
+  validateMetricFields(body, errors, '');
+};
+
+const validateMetricBatch: Validator = (body, errors) => {
+  requireString(body, 'entity_id', errors);
+  if (!Array.isArray(body.metrics) || body.metrics.length === 0) {
+    errors.push('metrics must be a non-empty array');
+    return;
+  }
+  body.metrics.forEach((metric, i) => {
+    if (!isObject(metric)) {
+      errors.push(`metrics[${i}] must be an object`);
+      return;
+    }
+    validateMetricFields(metric, errors, `metrics[${i}].`);
+    if (body.name === undefined) {
+      requireString(metric, 'name', errors, `metrics[${i}].`);
+    }
+  });
+};
+
+const validateEntity: Validator = (body, errors) => {
+  requireString(body, 'name', errors);
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (body.metadata !== undefined && !isObject(body.metadata)) {
+    errors.push('metadata must be an object');
+  }
+};
+
+/**
+ * Read a request body as JSON, undoing any Content-Encoding
+ */
+function decodeBody(request: TransportRequest): unknown {
+  if (request.body === undefined) return undefined;
+
+  let text: string;
+  if (typeof request.body === 'string') {
+    text = request.body;
+  } else {
+    const encoding = request.headers['Content-Encoding'];
+    const raw = Buffer.from(request.body);
+    const decoded = encoding === 'gzip' ? gunzipSync(raw) : encoding === 'deflate' ? inflateSync(raw) : raw;
+    text = decoded.toString('utf8');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Wait for `ms`, rejecting early if the request is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): TransportResponse {
+  return {
+    status,
+    body: body === undefined ? '' : JSON.stringify(body),
+    headers: { 'content-type': 'application/json', ...headers },
+  };
+}
+
+/**
+ * In-memory fake of the LogDot logs and metrics APIs
+ */
+export class FakeLogDotServer implements Transport {
+  /** Every request received, in order */
+  readonly requests: RecordedRequest[] = [];
+  /** Log entries accepted by the logs API */
+  readonly logs: ReceivedLog[] = [];
+  /** Metrics accepted by the metrics API */
+  readonly metrics: ReceivedMetric[] = [];
+  /** Payloads rejected for not matching the API schema */
+  readonly validationErrors: ValidationFailure[] = [];
+
+  private options: FakeLogDotServerOptions;
+  private entities = new Map<string, FakeEntity>();
+  private script: Array<ScriptedResponse & { remaining: number }> = [];
+  private nextEntityId = 1;
+
+  constructor(options: FakeLogDotServerOptions = {}) {
+    this.options = options;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const path = new URL(request.url).pathname;
+    const recorded: RecordedRequest = {
+      method: request.method,
+      url: request.url,
+      path,
+      headers: { ...request.headers },
+      body: decodeBody(request),
+      status: 0,
+    };
+    this.requests.push(recorded);
+
+    const scripted = this.takeScripted(path);
+    const latencyMs = (this.options.latencyMs ?? 0) + (scripted?.latencyMs ?? 0);
+    if (latencyMs > 0) {
+      await delay(latencyMs, request.signal);
+    }
+
+    if (scripted?.error) {
+      throw scripted.error;
+    }
+
+    const response = scripted?.status !== undefined
+      ? json(scripted.status, scripted.body, scripted.headers)
+      : this.handle(recorded);
+    recorded.status = response.status;
+    return response;
+  }
+
+  /**
+   * Script the answer for upcoming requests. Scripts are consumed in the
+   * order they were added, each by the requests its `path` matches.
+   */
+  enqueue(response: ScriptedResponse): this {
+    this.script.push({ ...response, remaining: response.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Answer the next `times` requests with an HTTP error status
+   */
+  failNext(status: number, times: number = 1, path?: string): this {
+    return this.enqueue({ status, body: { error: `HTTP ${status}` }, times, path });
+  }
+
+  /**
+   * Answer the next `times` requests with 429 and a Retry-After header
+   */
+  rateLimit(retryAfterSeconds: number = 0, times: number = 1, path?: string): this {
+    return this.enqueue({
+      status: 429,
+      body: { error: 'Too many requests' },
+      headers: { 'retry-after': String(retryAfterSeconds) },
+      times,
+      path,
+    });
+  }
+
+  /**
+   * Fail the next `times` requests without a response, like a refused connection
+   */
+  networkError(times: number = 1, path?: string): this {
+    return this.enqueue({ error: new Error('connect ECONNREFUSED (FakeLogDotServer)'), times, path });
+  }
+
+  /**
+   * Register an entity so lookups by name find it
+   */
+  addEntity(entity: Omit<FakeEntity, 'id'> & { id?: string }): FakeEntity {
+    const stored: FakeEntity = { ...entity, id: entity.id ?? `entity-${this.nextEntityId++}` };
+    this.entities.set(stored.name, stored);
+    return stored;
+  }
+
+  /**
+   * Get the entities known to the server
+   */
+  getEntities(): FakeEntity[] {
+    return [...this.entities.values()];
+  }
+
+  /**
+   * Forget all recorded requests, payloads, entities and scripts
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.logs.length = 0;
+    this.metrics.length = 0;
+    this.validationErrors.length = 0;
+    this.entities.clear();
+    this.script = [];
+    this.nextEntityId = 1;
+  }
+
+  /**
+   * Take the first scripted response matching a path
+   */
+  private takeScripted(path: string): ScriptedResponse | undefined {
+    const index = this.script.findIndex((s) => !s.path || path.endsWith(s.path));
+    if (index === -1) return undefined;
+
+    const scripted = this.script[index];
+    scripted.remaining--;
+    if (scripted.remaining <= 0) {
+      this.script.splice(index, 1);
+    }
+    return scripted;
+  }
+
+  /**
+   * Answer a request the way the LogDot API would
+   */
+  private handle(request: RecordedRequest): TransportResponse {
+    const auth = request.headers['Authorization'] ?? '';
+    const key = auth.startsWith('Bearer ') ? auth.slice('Bearer '.length) : '';
+    if (!key || (this.options.apiKey !== undefined && key !== this.options.apiKey)) {
+      return json(401, { error: 'Invalid API key' });
+    }
+
+    const { method, path } = request;
+    const byName = /\/entities\/by-name\/([^/]+)$/.exec(path);
+
+    if (method === 'GET' && byName) {
+      const entity = this.entities.get(decodeURIComponent(byName[1]));
+      return entity ? json(200, { data: entity }) : json(404, { error: 'Entity not found' });
+    }
+    if (method === 'POST' && path.endsWith('/logs/batch')) {
+      return this.accept(request, validateLogBatch, (body) => {
+        for (const log of body.logs as Record<string, unknown>[]) {
+          this.logs.push(this.toLog(body.hostname as string, log));
+        }
+      });
+    }
+    if (method === 'POST' && path.endsWith('/logs')) {
+      return this.accept(request, validateLog, (body) => {
+        this.logs.push(this.toLog(body.hostname as string, body));
+      });
+    }
+    if (method === 'POST' && path.endsWith('/metrics/batch')) {
+      return this.accept(request, validateMetricBatch, (body) => {
+        for (const metric of body.metrics as Record<string, unknown>[]) {
+          this.metrics.push(this.toMetric(body.entity_id as string, (metric.name ?? body.name) as string, metric));
+        }
+      });
+    }
+    if (method === 'POST' && path.endsWith('/metrics')) {
+      return this.accept(request, validateMetric, (body) => {
+        this.metrics.push(this.toMetric(body.entity_id as string, body.name as string, body));
+      });
+    }
+    if (method === 'POST' && path.endsWith('/entities')) {
+      const invalid = this.validate(request, validateEntity);
+      if (invalid) return invalid;
+
+      const body = request.body as Record<string, unknown>;
+      const entity = this.addEntity({
+        name: body.name as string,
+        description: body.description as string | undefined,
+        metadata: body.metadata as Record<string, unknown> | undefined,
+      });
+      return json(201, { data: entity });
+    }
+
+    return json(404, { error: `No route for ${method} ${path}` });
+  }
+
+  /**
+   * Validate a payload and, if it is valid, store it and answer 200
+   */
+  private accept(
+    request: RecordedRequest,
+    validator: Validator,
+    store: (body: Record<string, unknown>) => void
+  ): TransportResponse {
+    const invalid = this.validate(request, validator);
+    if (invalid) return invalid;
+
+    store(request.body as Record<string, unknown>);
+    return json(200, { success: true });
+  }
+
+  /**
+   * Check a payload against the API schema; returns a 400 response if it fails
+   */
+  private validate(request: RecordedRequest, validator: Validator): TransportResponse | null {
+    const errors: string[] = [];
+    if (isObject(request.body)) {
+      validator(request.body, errors);
+    } else {
+      errors.push('body must be a JSON object');
+    }
+
+    if (errors.length === 0) return null;
+
+    this.validationErrors.push({ path: request.path, errors });
+    return json(400, { error: 'Validation failed', details: errors });
+  }
+
+  private toLog(hostname: string, log: Record<string, unknown>): ReceivedLog {
+    return {
+      hostname,
+      message: log.message as string,
+      severity: log.severity as string,
+      ...(log.timestamp !== undefined ? { timestamp: log.timestamp as string } : {}),
+      ...(log.tags !== undefined ? { tags: log.tags as Record<string, unknown> } : {}),
+    };
+  }
+
+  private toMetric(entityId: string, name: string, metric: Record<string, unknown>): ReceivedMetric {
+    return {
+      entityId,
+      name,
+      value: metric.value as number,
+      unit: metric.unit as string,
+      ...(metric.tags !== undefined ? { tags: metric.tags as string[] } : {}),
+    };
+  }
+}
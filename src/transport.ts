@@ -0,0 +1,77 @@
+/**
+ * Transport - The pluggable layer that actually puts requests on the wire
+ *
+ * HttpClient handles auth headers, timeouts, retry and JSON parsing, and
+ * delegates the raw request/response exchange to a Transport. The default
+ * FetchTransport uses the global `fetch`; supply your own to route through
+ * an undici agent, a proxy, a recording layer or an in-process fake.
+ */
+
+/** A single outbound HTTP request */
+export interface TransportRequest {
+  /** HTTP method */
+  method: 'GET' | 'POST';
+  /** Absolute request URL */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Serialized request body, possibly compressed (omitted for GET) */
+  body?: string | Uint8Array;
+  /** Aborted when the per-attempt timeout elapses */
+  signal?: AbortSignal;
+}
+
+/** The raw result of a request */
+export interface TransportResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response body as text (empty string when there is none) */
+  body: string;
+  /** Response headers (lower-cased names) */
+  headers: Record<string, string>;
+}
+
+/** Sends a request and returns the raw response */
+export interface Transport {
+  /**
+   * Send a request. Should reject on network failure or abort, and
+   * resolve with the response for any HTTP status.
+   */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Default transport backed by the global `fetch` (Node 18+)
+ */
+export class FetchTransport implements Transport {
+  private fetchImpl?: typeof fetch;
+
+  /**
+   * @param fetchImpl - Optional fetch implementation (defaults to the global `fetch`)
+   */
+  constructor(fetchImpl?: typeof fetch) {
+    this.fetchImpl = fetchImpl;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    // Resolve the global lazily so it can be replaced after construction
+    const fetchFn = this.fetchImpl ?? fetch;
+    const response = await fetchFn(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return {
+      status: response.status,
+      body: await response.text(),
+      headers,
+    };
+  }
+}
@@ -2,29 +2,116 @@
  * LogDot SDK Type Definitions
  */
 
-/** Log severity levels */
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+import type { Transport, TransportRequest, TransportResponse } from './transport';
+import type { LogDotError } from './errors';
 
-/** Base configuration options shared by all clients */
-export interface BaseConfig {
+/** Log severity levels, least to most severe */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'notice' | 'warn' | 'error' | 'critical' | 'fatal';
+
+/**
+ * Levels for named loggers by namespace pattern: an exact name such as
+ * `db.pool`, a subtree such as `db.*`, or `*` for everything
+ */
+export type LevelRules = Record<string, LogLevel>;
+
+/** Severities accepted by the LogDot API; other levels are mapped onto these */
+export type ApiSeverity = 'debug' | 'info' | 'warn' | 'error';
+
+/** Supported request body encodings */
+export type CompressionEncoding = 'gzip' | 'deflate';
+
+/** Delivery options read by the HttpClient a component sends through */
+export interface HttpOptions {
   /** API key for authentication (format: ilog_live_XXXXX) */
   apiKey: string;
   /** HTTP request timeout in milliseconds (default: 5000) */
   timeout?: number;
+  /** Enable debug output to console (default: false) */
+  debug?: boolean;
+  /** Custom transport for sending requests (default: global fetch) */
+  transport?: Transport;
+  /** Compress POST bodies with this Content-Encoding (default: false) */
+  compression?: CompressionEncoding | false;
+  /** Minimum serialized body size in bytes before compressing (default: 1024) */
+  compressionThresholdBytes?: number;
+  /** Fail fast while the backend is down (default: disabled) */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Proxy URL; defaults to HTTPS_PROXY / HTTP_PROXY, `false` disables proxying */
+  proxy?: string | false;
+  /** Comma-separated hosts that bypass the proxy (default: NO_PROXY env var) */
+  noProxy?: string;
+  /** Use a pooled keep-alive connection agent (default: false, always on with a proxy) */
+  keepAlive?: boolean;
+  /** Called before every attempt; may mutate the request headers and body */
+  onRequest?: RequestHook;
+  /** Called after every attempt that received a response */
+  onResponse?: ResponseHook;
+  /** Called after every attempt that failed without a response */
+  onError?: ErrorHook;
+  /** Persist undeliverable payloads to disk and replay them later (default: disabled) */
+  spool?: SpoolConfig;
+  /** Client-side outbound rate limit, shared by clients with the same API key (default: unlimited) */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Options shared by every component that sends to LogDot (clients,
+ * console capture, OTel exporters and Next.js init)
+ */
+export interface ComponentOptions extends HttpOptions {
+  /** Split batch requests larger than this many serialized bytes (default: 1000000) */
+  batchMaxBytes?: number;
+  /** Split batch requests with more than this many entries (default: 1000) */
+  batchMaxEntries?: number;
+  /** Number of chunks of a split batch sent at once (default: 1, one after another) */
+  batchConcurrency?: number;
+  /** Periodically send the component's own stats as metrics (default: disabled) */
+  selfReport?: SelfReportConfig;
+}
+
+/** Base configuration options shared by all clients */
+export interface BaseConfig extends ComponentOptions {
   /** Maximum retry attempts for failed requests (default: 3) */
   retryAttempts?: number;
   /** Base delay in milliseconds for exponential backoff (default: 1000) */
   retryDelayMs?: number;
   /** Maximum delay in milliseconds for exponential backoff (default: 30000) */
   retryMaxDelayMs?: number;
-  /** Enable debug output to console (default: false) */
-  debug?: boolean;
+  /** Logs API base URL (default: LOGDOT_LOGS_URL env var, then https://logs.logdot.io/api/v1) */
+  logsUrl?: string;
+  /** Metrics API base URL (default: LOGDOT_METRICS_URL env var, then https://metrics.logdot.io/api/v1) */
+  metricsUrl?: string;
+  /** Throw typed LogDotError subclasses instead of resolving to false/null (default: false) */
+  throwOnError?: boolean;
 }
 
 /** Configuration options for LogDot Logger */
 export interface LoggerConfig extends BaseConfig {
   /** Hostname identifier for logs */
   hostname: string;
+  /** Minimum level to send; LOGDOT_LEVEL overrides it (default: 'debug') */
+  level?: LogLevel;
+  /**
+   * Levels for child() loggers by namespace, as rules or a "db.*=debug,*=warn"
+   * string; LOGDOT_LEVELS overrides them per pattern (default: none)
+   */
+  levels?: LevelRules | string;
+  /** Buffer logs and send them in the background instead of one request per call (default: false) */
+  autoBatch?: boolean;
+  /** autoBatch: flush the buffer at this interval in ms (default: 5000) */
+  flushIntervalMs?: number;
+  /** autoBatch: flush as soon as this many logs are buffered (default: 100) */
+  maxBatchSize?: number;
+  /** autoBatch: drop the oldest logs beyond this many buffered (default: 10000) */
+  maxBufferSize?: number;
+  /** Keep at most this many stack frames per logged error (default: 20) */
+  maxStackFrames?: number;
+  /** Redact secrets and PII from tags and messages; `true` applies every preset (default: disabled) */
+  redact?: RedactionConfig | boolean;
+  /** Keep only a fraction of logs by level, message and trace id (default: keep everything) */
+  sampling?: SamplingConfig;
+  /** Collapse identical logs into one with a `repeat_count` tag; `true` uses a 10s window (default: disabled) */
+  dedup?: DedupConfig | boolean;
 }
 
 /** Configuration options for LogDot Metrics */
@@ -47,6 +134,8 @@ export interface LogEntry {
   level: LogLevel;
   /** Optional structured tags/metadata */
   tags?: Record<string, unknown>;
+  /** When the event happened (ISO 8601, microsecond precision) */
+  timestamp?: string;
 }
 
 /** A single metric entry */
@@ -96,12 +185,188 @@ export interface RetryConfig {
   maxDelayMs: number;
 }
 
+/** A request about to be sent, as seen by interceptor hooks */
+export interface HookRequest extends TransportRequest {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * Request interceptor. Mutate `request.headers` or replace `request.body`
+ * (the serialized, possibly compressed payload) to change what is sent.
+ */
+export type RequestHook = (request: HookRequest) => void | Promise<void>;
+
+/** Response observer, given the round-trip time in milliseconds */
+export type ResponseHook = (response: TransportResponse, request: HookRequest, durationMs: number) => void | Promise<void>;
+
+/** Failure observer for network errors, timeouts and aborts */
+export type ErrorHook = (error: Error, request: HookRequest, durationMs: number) => void | Promise<void>;
+
+/** Circuit breaker states */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Circuit breaker configuration */
+export interface CircuitBreakerConfig {
+  /** Consecutive failed attempts before the breaker opens (default: 5) */
+  failureThreshold: number;
+  /** Milliseconds to stay open before allowing a trial request (default: 30000) */
+  cooldownMs: number;
+  /** Called whenever the breaker changes state, e.g. to alert when it trips */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/** On-disk spool configuration */
+export interface SpoolConfig {
+  /** Directory for spool segment files (created if missing) */
+  directory: string;
+  /** Rotate to a new segment file after this many bytes (default: 1 MiB) */
+  maxSegmentBytes?: number;
+  /** Delete the oldest segments beyond this total size (default: 50 MiB) */
+  maxTotalBytes?: number;
+}
+
+/** What to do with requests once the rate limit budget is exhausted */
+export type RateLimitBehavior = 'queue' | 'drop-oldest' | 'drop-newest';
+
+/** Client-side rate limit configuration */
+export interface RateLimitConfig {
+  /** Sustained requests per second (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Sustained request body bytes per second (default: unlimited) */
+  bytesPerSecond?: number;
+  /** Behaviour once the budget is exhausted (default: 'queue') */
+  behavior?: RateLimitBehavior;
+  /** Maximum requests waiting for budget (default: 1000) */
+  maxQueueSize?: number;
+}
+
+/** Periodic self-report configuration */
+export interface SelfReportConfig {
+  /** Name of the entity the stats are reported on (created if missing) */
+  entityName: string;
+  /** Milliseconds between reports (default: 60000) */
+  intervalMs?: number;
+  /** Metrics API base URL for the reports (default: the component's metricsUrl) */
+  metricsUrl?: string;
+  /** Extra tags added to every reported metric */
+  tags?: Record<string, string>;
+}
+
+/** Built-in redaction rule sets */
+export type RedactionPreset = 'auth' | 'cookies' | 'passwords' | 'emails' | 'creditCards' | 'jwt';
+
+/** What redaction does to a matching value */
+export type RedactionMode = 'mask' | 'hash' | 'remove';
+
+/** Redaction of tags and messages before they leave the process */
+export interface RedactionConfig {
+  /** Tag key paths to redact, case-insensitive; `*` matches any characters, e.g. 'user.ssn' or '*token' */
+  keys?: string[];
+  /** Patterns whose matches are redacted inside messages and string values */
+  patterns?: RegExp[];
+  /** Built-in rule sets to apply (default: all of them) */
+  presets?: RedactionPreset[];
+  /** Replace with "[REDACTED]", replace with a SHA-256 digest, or drop (default: 'mask') */
+  mode?: RedactionMode;
+  /** Salt prepended to values before hashing in 'hash' mode (default: none) */
+  hashSalt?: string;
+}
+
+/** Log sampling rules */
+export interface SamplingConfig {
+  /** Probability (0-1) of keeping a log, by level; unlisted levels are always kept */
+  rates?: Partial<Record<LogLevel, number>>;
+  /** Keep at most `limit` logs with the same level and message every `intervalMs` (default interval: 1000) */
+  perMessage?: { limit: number; intervalMs?: number };
+  /** Tag whose value makes rate sampling deterministic, so logs sharing it are kept or dropped together (default: 'trace_id') */
+  traceIdTag?: string;
+}
+
+/** Duplicate suppression settings */
+export interface DedupConfig {
+  /** Identical logs within this many ms of the first are collapsed into one summary (default: 10000) */
+  windowMs?: number;
+  /** Distinct logs tracked at once; further ones are sent without dedup (default: 1000) */
+  maxKeys?: number;
+}
+
+/** Counters describing an SDK component's delivery health */
+export interface SdkStats {
+  /** Items (logs, metrics or spans) handed to the component */
+  enqueued: number;
+  /** Items accepted by the API */
+  sent: number;
+  /** Items written to the spool for later delivery */
+  spooled: number;
+  /** Items whose delivery failed and was reported to the caller (or kept queued) */
+  failed: number;
+  /** Items discarded by the SDK, e.g. by the rate limit or a best-effort flush */
+  dropped: number;
+  /** HTTP attempts made, including retries */
+  requests: number;
+  /** Attempts that were retries of an earlier attempt */
+  retries: number;
+  /** Attempts that failed without a response */
+  networkErrors: number;
+  /** Responses received, by HTTP status code */
+  statusCodes: Record<string, number>;
+  /** Request body bytes sent over all attempts */
+  bytesSent: number;
+  /** Items currently waiting in a batch or buffer */
+  queueDepth: number;
+}
+
+/** Per-call cancellation options */
+export interface RequestOptions {
+  /** Abort the operation, including retries and the in-flight request */
+  signal?: AbortSignal;
+  /** Give up once this many milliseconds have passed, across all attempts and backoff */
+  deadlineMs?: number;
+}
+
+/** Per-call options for sending a log */
+export interface LogOptions extends RequestOptions {
+  /** When the event happened, for backfilled events (default: the time of the call) */
+  timestamp?: Date | number;
+}
+
 /** HTTP response wrapper */
 export interface HttpResponse<T = unknown> {
   /** HTTP status code */
   status: number;
   /** Response body data */
   data: T;
+  /** Response headers (lower-cased names) */
+  headers?: Record<string, string>;
+  /** Number of attempts made, including the final one */
+  attempts?: number;
+  /** True when delivery failed and the payload was written to the spool */
+  spooled?: boolean;
+}
+
+/** Outcome of one request of a split batch */
+export interface BatchChunkResult {
+  /** Position of the chunk within the batch */
+  index: number;
+  /** Number of entries in the chunk */
+  entries: number;
+  /** Whether the chunk was accepted (or spooled for later delivery) */
+  success: boolean;
+  /** HTTP status of the final attempt, if a response was received */
+  status?: number;
+  /** True when the chunk was spooled rather than delivered */
+  spooled?: boolean;
+  /** Why the chunk failed */
+  error?: LogDotError;
+}
+
+/** Outcome of sending a batch, which may have been split into several requests */
+export interface BatchResult {
+  /** True when every chunk succeeded */
+  success: boolean;
+  /** Per-chunk results, in order */
+  chunks: BatchChunkResult[];
 }
 
 /** API response for entity operations */
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { nowMs } from './utils';
+
+describe('nowMs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should never go backwards between consecutive calls', () => {
+    let previous = nowMs();
+    let backwardSteps = 0;
+    for (let i = 0; i < 200_000; i++) {
+      const current = nowMs();
+      if (current < previous) backwardSteps++;
+      previous = current;
+    }
+
+    expect(backwardSteps).toBe(0);
+  });
+
+  it('should stay within a few milliseconds of the wall clock', () => {
+    expect(Math.abs(nowMs() - Date.now())).toBeLessThan(11);
+  });
+
+  it('should follow a wall clock step', () => {
+    const stepped = Date.now() + 60_000;
+    vi.spyOn(Date, 'now').mockReturnValue(stepped);
+
+    expect(nowMs()).toBe(stepped);
+    expect(nowMs()).toBeGreaterThanOrEqual(stepped);
+  });
+});
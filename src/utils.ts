@@ -24,3 +24,66 @@ export function truncateBytes(str: string, maxBytes: number = MAX_MESSAGE_BYTES)
 
   return new TextDecoder().decode(encoded.slice(0, end)) + '... [truncated]';
 }
+
+/**
+ * Parse a Retry-After header value into a delay in milliseconds.
+ *
+ * Supports both delta-seconds ("120") and HTTP-date
+ * ("Wed, 21 Oct 2015 07:28:00 GMT") forms. Returns undefined when
+ * the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** Largest distance from the epoch a Date can represent, in milliseconds */
+export const MAX_EPOCH_MS = 8.64e15;
+
+/** How far the monotonic clock may drift from the wall clock before re-anchoring */
+const MAX_CLOCK_DRIFT_MS = 10;
+
+/** Offset from performance.now() to epoch milliseconds */
+let clockOffset = Date.now() - performance.now();
+let lastNowMs = 0;
+
+/**
+ * Current time in milliseconds since the epoch, with sub-millisecond precision
+ *
+ * Reads the monotonic clock against an epoch offset, so consecutive calls
+ * never go backwards. The offset is re-anchored to the wall clock once the
+ * two drift apart by MAX_CLOCK_DRIFT_MS (long-running processes, NTP
+ * steps); a re-anchor that would step back by less than that is clamped.
+ */
+export function nowMs(): number {
+  const monotonic = performance.now();
+  const wall = Date.now();
+  let now = monotonic + clockOffset;
+  if (Math.abs(now - wall) >= MAX_CLOCK_DRIFT_MS) {
+    clockOffset = wall - monotonic;
+    now = wall;
+  }
+  if (now < lastNowMs && lastNowMs - now < MAX_CLOCK_DRIFT_MS) {
+    now = lastNowMs;
+  }
+  lastNowMs = now;
+  return now;
+}
+
+/**
+ * Format epoch milliseconds as an ISO 8601 UTC timestamp with microseconds,
+ * e.g. 2024-01-15T09:30:00.123456Z
+ */
+export function formatTimestamp(epochMs: number): string {
+  const whole = Math.floor(epochMs);
+  const micros = Math.floor((epochMs - whole) * 1000);
+  return new Date(whole).toISOString().replace('Z', `${String(micros).padStart(3, '0')}Z`);
+}